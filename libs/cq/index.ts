@@ -2,4 +2,6 @@ export * from "./types";
 export * from "./parse";
 export * from "./normalize";
 export * from "./render";
+export * from "./serialize";
+export * from "./markdown";
 
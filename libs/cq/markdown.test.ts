@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { renderMarkdown } from "./markdown";
+
+const SAMPLE = [
+  "# 标题",
+  "",
+  "**粗体** 与 *斜体*, `a*b*c`, [文档](https://example.com)",
+  "",
+  "",
+  "- 列表项",
+  "- [x] 已完成",
+  "1) 第一步",
+  "> 引用",
+  "---",
+  "```ts",
+  "const a = **1**;",
+  "```",
+].join("\n");
+
+test("raw 原样返回", () => {
+  assert.equal(renderMarkdown(SAMPLE, "raw"), SAMPLE);
+});
+
+test("plain 去除语法", () => {
+  assert.equal(
+    renderMarkdown(SAMPLE, "plain"),
+    [
+      "标题",
+      "",
+      "粗体 与 斜体, a*b*c, 文档 (https://example.com)",
+      "",
+      "- 列表项",
+      "[x] 已完成",
+      "1. 第一步",
+      "引用",
+      "",
+      "const a = **1**;",
+    ].join("\n"),
+  );
+});
+
+test("rendered 排版标题、列表、引用与分隔线", () => {
+  assert.equal(
+    renderMarkdown(SAMPLE, "rendered"),
+    [
+      "【标题】",
+      "",
+      "粗体 与 斜体, a*b*c, 文档 (https://example.com)",
+      "",
+      "• 列表项",
+      "☑ 已完成",
+      "1. 第一步",
+      "│ 引用",
+      "──────────",
+      "const a = **1**;",
+    ].join("\n"),
+  );
+});
+
+test("rendered 表格按显示宽度对齐", () => {
+  const table = ["| 名称 | 值 |", "| --- | --- |", "| ab | 1 |", "| 中文 | 22 |"].join("\n");
+  assert.equal(renderMarkdown(table, "rendered"), ["名称  值", "────  ──", "ab    1", "中文  22"].join("\n"));
+});
+
+test("链接文字与地址相同时只保留地址", () => {
+  assert.equal(renderMarkdown("[https://a.b](https://a.b)", "plain"), "https://a.b");
+});
@@ -0,0 +1,206 @@
+import type { CQTextMode } from "./types";
+
+type Line = { text: string; code: boolean };
+
+const FENCE_RE = /^\s*(`{3,}|~{3,})/;
+const HEADING_RE = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const HR_RE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const QUOTE_RE = /^\s{0,3}>\s?(.*)$/;
+const BULLET_RE = /^(\s*)[-*+]\s+(.*)$/;
+const ORDERED_RE = /^(\s*)(\d+)[.)]\s+(.*)$/;
+const TASK_RE = /^\[([ xX])\]\s+(.*)$/;
+const TABLE_SEPARATOR_RE = /^\s*\|?\s*:?-{1,}:?\s*(\|\s*:?-{1,}:?\s*)*\|?\s*$/;
+
+const LIST_MARKERS = {
+  plain: { bullet: "-", todo: "[ ]", done: "[x]" },
+  rendered: { bullet: "•", todo: "☐", done: "☑" },
+};
+
+// 按终端显示宽度计算, CJK 与全角字符占两列, 用于表格对齐。
+function displayWidth(text: string): number {
+  let width = 0;
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 0;
+    width +=
+      (code >= 0x1100 && code <= 0x115f) ||
+      (code >= 0x2e80 && code <= 0xa4cf) ||
+      (code >= 0xac00 && code <= 0xd7a3) ||
+      (code >= 0xf900 && code <= 0xfaff) ||
+      (code >= 0xfe30 && code <= 0xfe4f) ||
+      (code >= 0xff00 && code <= 0xff60) ||
+      (code >= 0xffe0 && code <= 0xffe6) ||
+      code >= 0x1f300
+        ? 2
+        : 1;
+  }
+  return width;
+}
+
+function padEnd(text: string, width: number): string {
+  return text + " ".repeat(Math.max(0, width - displayWidth(text)));
+}
+
+function renderInline(text: string): string {
+  const codeSpans: string[] = [];
+  // 先抽出行内代码, 避免其中的 * _ 等字符被当作强调语法处理。
+  let out = text.replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (_, __, code: string) => {
+    codeSpans.push(code.trim());
+    return `\u0000${codeSpans.length - 1}\u0000`;
+  });
+
+  out = out
+    .replace(/!\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g, (_, alt: string, url: string) =>
+      alt.trim() ? `${alt.trim()} (${url})` : url,
+    )
+    .replace(/\[([^\]]+)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g, (_, label: string, url: string) =>
+      label.trim() === url ? url : `${label.trim()} (${url})`,
+    )
+    .replace(/<((?:https?|mailto):[^>\s]+)>/g, "$1")
+    .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, "$2")
+    .replace(/(^|[^\w*])\*(?=\S)([^*\n]*?\S)\*(?!\w)/g, "$1$2")
+    .replace(/(^|[^\w])_(?=\S)([^_\n]*?\S)_(?!\w)/g, "$1$2")
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, "$1")
+    .replace(/\\([\\`*_{}[\]()#+\-.!|~>])/g, "$1");
+
+  return out.replace(/\u0000(\d+)\u0000/g, (_, index: string) => codeSpans[Number(index)] ?? "");
+}
+
+function splitTableRow(line: string): string[] {
+  const trimmed = line.trim().replace(/^\|/, "").replace(/\|$/, "");
+  return trimmed.split(/(?<!\\)\|/g).map((cell) => renderInline(cell.trim()));
+}
+
+function renderTable(rows: string[][], mode: CQTextMode): string[] {
+  if (mode !== "rendered") {
+    return rows.map((row) => row.join("  "));
+  }
+  const columns = Math.max(...rows.map((row) => row.length));
+  const widths: number[] = [];
+  for (let col = 0; col < columns; col += 1) {
+    widths.push(Math.max(...rows.map((row) => displayWidth(row[col] ?? ""))));
+  }
+  const format = (row: string[]) =>
+    widths
+      .map((width, col) => (col === columns - 1 ? row[col] ?? "" : padEnd(row[col] ?? "", width)))
+      .join("  ")
+      .trimEnd();
+  const [header, ...body] = rows;
+  const separator = widths.map((width) => "─".repeat(Math.max(1, width))).join("  ");
+  return [format(header), separator, ...body.map(format)];
+}
+
+function normalizeIndent(indent: string): string {
+  const width = indent.replace(/\t/g, "    ").length;
+  return "  ".repeat(Math.floor(width / 2));
+}
+
+/**
+ * 将 Markdown 转换为适合在 QQ 中阅读的纯文本。
+ *
+ * - `raw`: 原样返回
+ * - `plain`: 去除 Markdown 语法, 只保留文字
+ * - `rendered`: 在去除语法的基础上排版: 列表使用 `•`, 标题加 `【】`, 表格按列对齐, 分隔线可见
+ *
+ * 链接统一渲染为 `文字 (url)`, 代码块内容原样保留(去掉围栏)。
+ */
+export function renderMarkdown(text: string, mode: CQTextMode = "rendered"): string {
+  if (mode === "raw" || !text) {
+    return text;
+  }
+
+  const source = text.replace(/\r\n?/g, "\n").split("\n");
+  const lines: Line[] = [];
+  let fence: string | null = null;
+
+  for (let i = 0; i < source.length; i += 1) {
+    const line = source[i];
+
+    const fenceMatch = line.match(FENCE_RE);
+    if (fence) {
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+        fence = null;
+        continue;
+      }
+      lines.push({ text: line, code: true });
+      continue;
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      continue;
+    }
+
+    if (line.includes("|") && TABLE_SEPARATOR_RE.test(source[i + 1] ?? "") && source[i + 1].includes("-")) {
+      const rows = [splitTableRow(line)];
+      i += 2;
+      while (i < source.length && source[i].includes("|") && source[i].trim()) {
+        rows.push(splitTableRow(source[i]));
+        i += 1;
+      }
+      i -= 1;
+      for (const rendered of renderTable(rows, mode)) {
+        lines.push({ text: rendered, code: false });
+      }
+      continue;
+    }
+
+    const heading = line.match(HEADING_RE);
+    if (heading) {
+      const title = renderInline(heading[2]);
+      lines.push({
+        text: mode === "rendered" && heading[1].length <= 2 ? `【${title}】` : title,
+        code: false,
+      });
+      continue;
+    }
+
+    if (HR_RE.test(line)) {
+      lines.push({ text: mode === "rendered" ? "──────────" : "", code: false });
+      continue;
+    }
+
+    const quote = line.match(QUOTE_RE);
+    if (quote) {
+      const body = renderInline(quote[1]);
+      lines.push({ text: mode === "rendered" ? `│ ${body}` : body, code: false });
+      continue;
+    }
+
+    const bullet = line.match(BULLET_RE);
+    if (bullet) {
+      const indent = normalizeIndent(bullet[1]);
+      const task = bullet[2].match(TASK_RE);
+      const markers = LIST_MARKERS[mode];
+      const marker = task ? (task[1] === " " ? markers.todo : markers.done) : markers.bullet;
+      lines.push({ text: `${indent}${marker} ${renderInline(task ? task[2] : bullet[2])}`, code: false });
+      continue;
+    }
+
+    const ordered = line.match(ORDERED_RE);
+    if (ordered) {
+      lines.push({
+        text: `${normalizeIndent(ordered[1])}${ordered[2]}. ${renderInline(ordered[3])}`,
+        code: false,
+      });
+      continue;
+    }
+
+    lines.push({ text: renderInline(line.trimEnd()), code: false });
+  }
+
+  // 代码块外的连续空行最多保留一行。
+  const out: string[] = [];
+  let blank = 0;
+  for (const line of lines) {
+    if (!line.code && !line.text.trim()) {
+      blank += 1;
+      if (blank > 1) {
+        continue;
+      }
+      out.push("");
+      continue;
+    }
+    blank = 0;
+    out.push(line.text);
+  }
+  return out.join("\n").trim();
+}
@@ -1,6 +1,59 @@
-import type { CQParseResult } from "./types";
+import type { CQMediaRef, CQParseResult, CQPlainTextOptions, CQSegmentNormalized } from "./types";
 
-export function toPlainText(result: CQParseResult): string {
+// QQ 小程序/卡片消息的 json 中 prompt 为展示摘要, 如 "[QQ小程序]哔哩哔哩"
+function describeJsonCard(raw: string): string {
+  try {
+    const card = JSON.parse(raw) as { prompt?: unknown };
+    return typeof card.prompt === "string" && card.prompt.trim() ? `[card] ${card.prompt.trim()}` : "[card]";
+  } catch {
+    return "[card]";
+  }
+}
+
+// 除文本与 @ 外的消息段在纯文本中的占位表示
+function describeSegment(seg: CQSegmentNormalized): string | null {
+  switch (seg.type) {
+    case "image":
+      return "[image]";
+    case "file":
+      return "[file]";
+    case "record":
+      return "[audio]";
+    case "video":
+      return "[video]";
+    case "forward":
+      return "[forward]";
+    case "face":
+      return "[face]";
+    case "poke":
+      return "[poke]";
+    case "dice":
+      return seg.data.result != null ? `[dice: ${seg.data.result}]` : "[dice]";
+    case "rps":
+      return "[rps]";
+    case "json":
+      return describeJsonCard(String(seg.data.data ?? ""));
+    case "xml":
+      return "[card]";
+    case "share":
+      return `[share] ${[seg.data.title, seg.data.url].filter(Boolean).join(" ")}`.trim();
+    case "location": {
+      const title = String(seg.data.title ?? "").trim();
+      return `[location] ${title ? `${title} ` : ""}(${seg.data.lat}, ${seg.data.lon})`;
+    }
+    case "contact":
+      return `[contact ${seg.data.type === "group" ? "group" : "qq"}:${seg.data.id}]`;
+    case "music":
+      return seg.data.title ? `[music] ${seg.data.title}` : "[music]";
+    default:
+      return null;
+  }
+}
+
+/**
+ * 将消息段转为纯文本; @ 默认渲染为 `@QQ号`, 可通过 options 省略指定对象或替换为昵称。
+ */
+export function toPlainText(result: CQParseResult, options: CQPlainTextOptions = {}): string {
   const out: string[] = [];
   for (const seg of result.segments) {
     if (seg.type === "text") {
@@ -10,20 +63,16 @@ export function toPlainText(result: CQParseResult): string {
     }
     if (seg.type === "at") {
       const qq = String(seg.data.qq ?? "").trim();
-      out.push(qq ? `@${qq}` : "@");
-      continue;
-    }
-    if (seg.type === "image") {
-      out.push("[image]");
-      continue;
-    }
-    if (seg.type === "file") {
-      out.push("[file]");
+      if (qq && options.omitMentions?.includes(qq)) {
+        continue;
+      }
+      const name = options.mentionNames?.get(qq);
+      out.push(qq ? `@${name || qq}` : "@");
       continue;
     }
-    if (seg.type === "record") {
-      out.push("[audio]");
-      continue;
+    const placeholder = describeSegment(seg);
+    if (placeholder) {
+      out.push(placeholder);
     }
   }
   return out.join("").replace(/\s+/g, " ").trim();
@@ -49,20 +98,46 @@ export function extractReplyId(result: CQParseResult): string | null {
   return null;
 }
 
-export function extractMediaRefs(
-  result: CQParseResult,
-): Array<{ type: "image" | "file" | "record"; value: string }> {
-  const out: Array<{ type: "image" | "file" | "record"; value: string }> = [];
+// 合并转发段: id 用于 get_forward_msg; 部分实现(NapCat)会在 content 中直接附带消息列表。
+export function extractForwardRefs(result: CQParseResult): Array<{ id: string; content?: unknown[] }> {
+  const out: Array<{ id: string; content?: unknown[] }> = [];
+  for (const seg of result.segments) {
+    if (seg.type !== "forward") {
+      continue;
+    }
+    const id = String(seg.data.id ?? "").trim();
+    const content = Array.isArray(seg.data.content) ? seg.data.content : undefined;
+    if (id || content) {
+      out.push({ id, content });
+    }
+  }
+  return out;
+}
+
+export function extractMediaRefs(result: CQParseResult): CQMediaRef[] {
+  const out: CQMediaRef[] = [];
   for (const seg of result.segments) {
     if (seg.type !== "image" && seg.type !== "file" && seg.type !== "record") {
       continue;
     }
-    const value = String(seg.data.url ?? seg.data.file ?? "").trim();
+    const url = String(seg.data.url ?? "").trim();
+    const file = String(seg.data.file ?? "").trim();
+    const value = url || file;
     if (!value) {
       continue;
     }
-    out.push({ type: seg.type, value });
+    const fileId = String(seg.data.file_id ?? "").trim();
+    const name = String(seg.data.name ?? seg.data.file_name ?? "").trim();
+    const size = Number(seg.data.file_size ?? seg.data.size);
+    out.push({
+      type: seg.type,
+      value,
+      url: url || undefined,
+      file: file || undefined,
+      fileId: fileId || undefined,
+      name: name || undefined,
+      size: Number.isFinite(size) && size > 0 ? size : undefined,
+    });
   }
   return out;
 }
-
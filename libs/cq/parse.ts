@@ -1,26 +1,53 @@
-import type { CQParseResult, CQSegmentNormalized } from "./types";
+import type { CQParseResult, CQSegmentDataMap, CQSegmentNormalized } from "./types";
+import { unescapeCQParam, unescapeCQText } from "./serialize";
+
+const KNOWN_SEGMENT_TYPES = new Set<string>([
+  "text",
+  "at",
+  "reply",
+  "face",
+  "image",
+  "record",
+  "video",
+  "file",
+  "json",
+  "xml",
+  "forward",
+  "poke",
+  "dice",
+  "rps",
+  "share",
+  "location",
+  "contact",
+  "music",
+]);
+
+function toSegment(type: string, data: Record<string, unknown>, raw?: string): CQSegmentNormalized {
+  if (KNOWN_SEGMENT_TYPES.has(type)) {
+    return { type: type as keyof CQSegmentDataMap, data, raw } as CQSegmentNormalized;
+  }
+  return { type: "unknown", data: { cqType: type, ...data }, raw };
+}
 
 function parseCQBody(body: string): CQSegmentNormalized {
   const raw = `[CQ:${body}]`;
-  const [typePart, ...rest] = body.split(",");
+  const [typePart, ...attrs] = body.split(",");
   const type = typePart?.trim() || "unknown";
   const data: Record<string, unknown> = {};
-  const attrs = rest.join(",");
-  if (attrs) {
-    for (const kv of attrs.split(",")) {
-      const idx = kv.indexOf("=");
-      if (idx <= 0) {
-        continue;
+  let lastKey: string | null = null;
+  for (const kv of attrs) {
+    const idx = kv.indexOf("=");
+    // 规范要求参数值中的逗号转义为 &#44;, 个别实现未转义(如 URL), 不含 = 的片段并回上一个参数值。
+    if (idx <= 0) {
+      if (lastKey) {
+        data[lastKey] = `${data[lastKey]},${unescapeCQParam(kv)}`;
       }
-      const key = kv.slice(0, idx).trim();
-      const value = kv.slice(idx + 1).trim().replace(/&amp;/g, "&");
-      data[key] = value;
+      continue;
     }
+    lastKey = kv.slice(0, idx).trim();
+    data[lastKey] = unescapeCQParam(kv.slice(idx + 1));
   }
-  if (type === "text" || type === "at" || type === "reply" || type === "image" || type === "file" || type === "record") {
-    return { type, data, raw };
-  }
-  return { type: "unknown", data: { cqType: type, ...data }, raw };
+  return toSegment(type, data, raw);
 }
 
 function parseStringInput(input: string): CQSegmentNormalized[] {
@@ -33,7 +60,7 @@ function parseStringInput(input: string): CQSegmentNormalized[] {
     if (match.index > cursor) {
       segments.push({
         type: "text",
-        data: { text: input.slice(cursor, match.index) },
+        data: { text: unescapeCQText(input.slice(cursor, match.index)) },
       });
     }
     segments.push(parseCQBody(match[1]));
@@ -43,12 +70,12 @@ function parseStringInput(input: string): CQSegmentNormalized[] {
   if (cursor < input.length) {
     segments.push({
       type: "text",
-      data: { text: input.slice(cursor) },
+      data: { text: unescapeCQText(input.slice(cursor)) },
     });
   }
 
   if (!segments.length) {
-    segments.push({ type: "text", data: { text: input } });
+    segments.push({ type: "text", data: { text: unescapeCQText(input) } });
   }
   return segments;
 }
@@ -59,11 +86,7 @@ function parseArrayInput(input: unknown[]): CQSegmentNormalized[] {
     const seg = item as { type?: unknown; data?: unknown };
     const type = typeof seg?.type === "string" ? seg.type : "unknown";
     const data = typeof seg?.data === "object" && seg.data != null ? (seg.data as Record<string, unknown>) : {};
-    if (type === "text" || type === "at" || type === "reply" || type === "image" || type === "file" || type === "record") {
-      segments.push({ type, data });
-      continue;
-    }
-    segments.push({ type: "unknown", data: { cqType: type, ...data } });
+    segments.push(toSegment(type, data));
   }
   return segments;
 }
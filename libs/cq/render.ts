@@ -1,9 +1,8 @@
-import type { CQBuildPayload } from "./types";
+import type { CQBuildPayload, CQSegment } from "./types";
+import { renderMarkdown } from "./markdown";
 
-type Segment = { type: string; data: Record<string, unknown> };
-
-export function buildOutboundSegments(payload: CQBuildPayload): Segment[] {
-  const segments: Segment[] = [];
+export function buildOutboundSegments(payload: CQBuildPayload): CQSegment[] {
+  const segments: CQSegment[] = [];
   if (payload.replyToId) {
     segments.push({ type: "reply", data: { id: String(payload.replyToId) } });
   }
@@ -15,10 +14,16 @@ export function buildOutboundSegments(payload: CQBuildPayload): Segment[] {
     segments.push({ type: "at", data: { qq } });
     segments.push({ type: "text", data: { text: " " } });
   }
-  const text = payload.text?.trim();
+  const text = payload.text ? renderMarkdown(payload.text, payload.textMode ?? "raw").trim() : "";
   if (text) {
     segments.push({ type: "text", data: { text } });
   }
+  for (const media of payload.media ?? []) {
+    if (!media.file) {
+      continue;
+    }
+    segments.push({ type: media.type, data: { file: media.file } });
+  }
   return segments;
 }
 
@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { parseInboundCQ } from "./parse";
+import { escapeCQParam, escapeCQText, toCQString, unescapeCQParam, unescapeCQText } from "./serialize";
+
+test("纯文本转义与反转义互逆", () => {
+  const text = "a & b [c] d,e &#91;";
+  const escaped = escapeCQText(text);
+  assert.equal(escaped, "a &amp; b &#91;c&#93; d,e &amp;#91;");
+  assert.equal(unescapeCQText(escaped), text);
+});
+
+test("参数值额外转义逗号", () => {
+  const value = "https://x/?a=1,2&b=[3]";
+  const escaped = escapeCQParam(value);
+  assert.equal(escaped, "https://x/?a=1&#44;2&amp;b=&#91;3&#93;");
+  assert.equal(unescapeCQParam(escaped), value);
+});
+
+test("文本中的字面 &#44; 不被还原为逗号", () => {
+  assert.equal(unescapeCQText("1&#44;2"), "1&#44;2");
+  assert.equal(unescapeCQParam("1&#44;2"), "1,2");
+});
+
+test("toCQString 与 parseInboundCQ 往返", () => {
+  const segments = [
+    { type: "text", data: { text: "hi [all] & 1&#44;2" } },
+    { type: "at", data: { qq: "10001" } },
+    { type: "image", data: { file: "https://x/a.png?a=1,2&b=[3]" } },
+  ];
+  const cq = toCQString(segments);
+  assert.equal(
+    cq,
+    "hi &#91;all&#93; &amp; 1&amp;#44;2[CQ:at,qq=10001][CQ:image,file=https://x/a.png?a=1&#44;2&amp;b=&#91;3&#93;]",
+  );
+  const parsed = parseInboundCQ(cq).segments.map(({ type, data }) => ({ type, data }));
+  assert.deepEqual(parsed, segments);
+});
+
+test("未识别的段类型保留原始类型名", () => {
+  const [segment] = parseInboundCQ("[CQ:mface,id=1]").segments;
+  assert.equal(segment.type, "unknown");
+  assert.equal(toCQString([segment]), "[CQ:mface,id=1]");
+});
+
+test("参数值中未转义的逗号并回上一个参数", () => {
+  const [segment] = parseInboundCQ("[CQ:image,file=https://x/a.png?a=1,2,url=u]").segments;
+  assert.deepEqual(segment.data, { file: "https://x/a.png?a=1,2", url: "u" });
+});
+
+test("CQ 码之间的文本按纯文本反转义", () => {
+  const { segments } = parseInboundCQ("a&#44;b[CQ:face,id=1]c&amp;d");
+  assert.deepEqual(
+    segments.map(({ type, data }) => ({ type, data })),
+    [
+      { type: "text", data: { text: "a&#44;b" } },
+      { type: "face", data: { id: "1" } },
+      { type: "text", data: { text: "c&d" } },
+    ],
+  );
+});
@@ -0,0 +1,57 @@
+import type { CQSegmentNormalized } from "./types";
+
+type SerializableSegment = CQSegmentNormalized | { type: string; data: Record<string, unknown> };
+
+/**
+ * 转义 CQ 码之外的纯文本: `&` `[` `]`。
+ */
+export function escapeCQText(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/\[/g, "&#91;").replace(/\]/g, "&#93;");
+}
+
+/**
+ * 转义 CQ 码参数值: 在纯文本规则之外还需转义 `,`。
+ */
+export function escapeCQParam(value: string): string {
+  return escapeCQText(value).replace(/,/g, "&#44;");
+}
+
+/**
+ * 反转义纯文本; 文本中的 `,` 不会被转义, 用户输入的字面 `&#44;` 保持原样。
+ * `&amp;` 最后处理, 避免 `&amp;#91;` 被还原两次。
+ */
+export function unescapeCQText(text: string): string {
+  return text.replace(/&#91;/g, "[").replace(/&#93;/g, "]").replace(/&amp;/g, "&");
+}
+
+/**
+ * 反转义 CQ 码参数值: 在纯文本规则之外还原 `&#44;`。
+ */
+export function unescapeCQParam(value: string): string {
+  return unescapeCQText(value.replace(/&#44;/g, ","));
+}
+
+function serializeSegment(seg: SerializableSegment): string {
+  if (seg.type === "text") {
+    return escapeCQText(String(seg.data.text ?? ""));
+  }
+  // 解析时未识别的段保留了原始类型名, 序列化时还原。
+  const { cqType, ...rest } = seg.data as Record<string, unknown>;
+  const type = seg.type === "unknown" && typeof cqType === "string" ? cqType : seg.type;
+  const params: string[] = [];
+  for (const [key, value] of Object.entries(rest)) {
+    // CQ 码只能表达标量参数, 数组/对象(如 forward 附带的 content)无法序列化, 直接略过
+    if (value == null || typeof value === "object") {
+      continue;
+    }
+    params.push(`${key}=${escapeCQParam(String(value))}`);
+  }
+  return `[CQ:${[type, ...params].join(",")}]`;
+}
+
+/**
+ * 将消息段序列化为 CQ 码字符串, 与 parseInboundCQ 互为逆操作。
+ */
+export function toCQString(segments: SerializableSegment[]): string {
+  return segments.map(serializeSegment).join("");
+}
@@ -1,25 +1,90 @@
-export type CQSegmentType =
-  | "text"
-  | "at"
-  | "reply"
-  | "image"
-  | "file"
-  | "record"
-  | "unknown";
-
-export type CQSegmentNormalized = {
-  type: CQSegmentType;
-  data: Record<string, unknown>;
+// 从 CQ 字符串解析出的值均为字符串, 数组格式上报中部分实现会给出数字。
+type CQId = string | number;
+
+/**
+ * 各消息段的 data 字段, 参见 OneBot v11 消息段定义; 实现扩展的字段保留在索引签名中。
+ */
+export type CQSegmentDataMap = {
+  text: { text: string };
+  at: { qq: CQId; name?: string };
+  reply: { id: CQId };
+  face: { id: CQId };
+  image: { file: string; url?: string; type?: "flash" | (string & {}); summary?: string };
+  record: { file: string; url?: string; magic?: CQId };
+  video: { file: string; url?: string; cover?: string };
+  file: { file?: string; name?: string; url?: string; file_id?: string; file_size?: CQId };
+  json: { data: string };
+  xml: { data: string };
+  // content 为 NapCat 等实现随段附带的消息列表
+  forward: { id: string; content?: unknown[] };
+  poke: { type: CQId; id: CQId; name?: string };
+  dice: { result?: CQId };
+  rps: { result?: CQId };
+  share: { url: string; title: string; content?: string; image?: string };
+  location: { lat: CQId; lon: CQId; title?: string; content?: string };
+  contact: { type: "qq" | "group"; id: CQId };
+  music: {
+    type: "qq" | "163" | "xm" | "custom";
+    id?: CQId;
+    url?: string;
+    audio?: string;
+    title?: string;
+    content?: string;
+    image?: string;
+  };
+};
+
+export type CQSegmentType = keyof CQSegmentDataMap | "unknown";
+
+export type CQSegment<T extends keyof CQSegmentDataMap = keyof CQSegmentDataMap> = {
+  [K in T]: { type: K; data: CQSegmentDataMap[K] & Record<string, unknown>; raw?: string };
+}[T];
+
+// 未识别的段, 原始类型名保存在 data.cqType 中
+export type CQUnknownSegment = {
+  type: "unknown";
+  data: Record<string, unknown> & { cqType?: string };
   raw?: string;
 };
 
+export type CQSegmentNormalized = CQSegment | CQUnknownSegment;
+
 export type CQParseResult = {
   segments: CQSegmentNormalized[];
 };
 
+export type CQPlainTextOptions = {
+  // 不输出的 @ 对象, 通常为机器人自身
+  omitMentions?: string[];
+  // QQ号 -> 显示名, 命中时 @ 渲染为 `@昵称`
+  mentionNames?: Map<string, string>;
+};
+
+export type CQOutboundMedia = {
+  type: "image" | "record" | "video";
+  // base64://、file:// 或 http(s) 地址, 原样交给 OneBot 实现解析。
+  file: string;
+};
+
+// 出站文本的 Markdown 处理方式, 见 renderMarkdown。
+export type CQTextMode = "raw" | "plain" | "rendered";
+
 export type CQBuildPayload = {
   text?: string;
+  textMode?: CQTextMode;
   replyToId?: string | null;
   mentions?: string[];
+  media?: CQOutboundMedia[];
 };
 
+
+export type CQMediaRef = {
+  type: "image" | "file" | "record";
+  // url 优先, 否则为 file 字段; 保留以兼容只关心单一引用的调用方。
+  value: string;
+  url?: string;
+  file?: string;
+  fileId?: string;
+  name?: string;
+  size?: number;
+};
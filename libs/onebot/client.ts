@@ -1,23 +1,27 @@
 import WebSocket from "ws";
 import type {
-    Listener,
   OneBotActionRequest,
   OneBotApiResponse,
-  OneBotClientError,
-  OneBotClientEventMap,
-  OneBotClientState,
   OneBotCloseEvent,
-  OneBotMessageEvent,
   OneBotReconnectEvent,
-  OneBotTimeoutEvent,
   OneBotWsClientOptions,
-  PendingRequest,
+  OneBotWsEndpoint,
 } from "./types";
-import { DEFAULT_RECONNECT_ENABLED, DEFAULT_RECONNECT_BASE_DELAY_MS, DEFAULT_RECONNECT_MAX_ATTEMPTS, DEFAULT_RECONNECT_MAX_DELAY_MS, DEFAULT_REQUEST_TIMEOUT_MS } from "./const";
-import { clampMs, createClientError, toReason, toText, isApiResponsePacket, isEventPacket } from "./util";
-
-// OneBot客户端, 对OneBot协议下的消息接收和发送进行封装, 支持反向WebSocket连接。
-export default class OneBotWsClient {
+import {
+  DEFAULT_AUTH_FAILURE_COOLDOWN_MS,
+  DEFAULT_AUTH_FAILURE_THRESHOLD,
+  DEFAULT_PRIMARY_RECHECK_MS,
+  DEFAULT_PRIMARY_RECHECK_TIMEOUT_MS,
+  DEFAULT_RECONNECT_ENABLED,
+  DEFAULT_RECONNECT_BASE_DELAY_MS,
+  DEFAULT_RECONNECT_MAX_ATTEMPTS,
+  DEFAULT_RECONNECT_MAX_DELAY_MS,
+} from "./const";
+import { clampMs, createClientError, redactUrl, toReason } from "./util";
+import OneBotTransport from "./transport";
+
+// OneBot客户端, 对OneBot协议下的消息接收和发送进行封装, 以正向WebSocket主动连接OneBot实现。
+export default class OneBotWsClient extends OneBotTransport {
   private readonly options: Required<
     Pick<
       OneBotWsClientOptions,
@@ -26,7 +30,9 @@ export default class OneBotWsClient {
       | "reconnectBaseDelayMs"
       | "reconnectMaxAttempts"
       | "reconnectMaxDelayMs"
-      | "requestTimeoutMs"
+      | "authFailureThreshold"
+      | "authFailureCooldownMs"
+      | "primaryRecheckMs"
     >
   > &
     Omit<
@@ -36,39 +42,27 @@ export default class OneBotWsClient {
       | "reconnectBaseDelayMs"
       | "reconnectMaxAttempts"
       | "reconnectMaxDelayMs"
+      | "authFailureThreshold"
+      | "authFailureCooldownMs"
+      | "primaryRecheckMs"
       | "requestTimeoutMs"
+      | "logger"
     >;
 
+  private readonly endpoints: OneBotWsEndpoint[];
+  private endpointIndex = 0;
+  private primaryRecheckTimer: NodeJS.Timeout | null = null;
+  private primaryProbe: WebSocket | null = null;
   private ws: WebSocket | null = null;
-  private state: OneBotClientState = "idle";
   private manuallyClosed = false;
   private connectPromise: Promise<void> | null = null;
   private reconnectAttempt = 0;
   private reconnectTimer: NodeJS.Timeout | null = null;
-  private lastInboundAt = 0;
-  private heartbeatTimer: NodeJS.Timeout | null = null;
-  private echoSeq = 0;
-
-  private readonly listeners: {
-    [K in keyof OneBotClientEventMap]: Set<OneBotClientEventMap[K]>;
-  } = {
-    open: new Set(),
-    close: new Set(),
-    reconnecting: new Set(),
-    error: new Set(),
-    raw: new Set(),
-    event: new Set(),
-    message: new Set(),
-    notice: new Set(),
-    request: new Set(),
-    meta_event: new Set(),
-    response: new Set(),
-    timeout: new Set(),
-  };
-
-  private readonly pendingRequests = new Map<string, PendingRequest>();
+  private authFailures = 0;
+  private exhausted = false;
 
   constructor(options: OneBotWsClientOptions) {
+    super(options);
     this.options = {
       ...options,
       reconnect: options.reconnect ?? DEFAULT_RECONNECT_ENABLED,
@@ -84,28 +78,27 @@ export default class OneBotWsClient {
         options.reconnectMaxDelayMs ?? DEFAULT_RECONNECT_MAX_DELAY_MS,
         DEFAULT_RECONNECT_MAX_DELAY_MS,
       ),
-      requestTimeoutMs: clampMs(
-        options.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS,
-        DEFAULT_REQUEST_TIMEOUT_MS,
+      authFailureThreshold: clampMs(
+        options.authFailureThreshold ?? DEFAULT_AUTH_FAILURE_THRESHOLD,
+        DEFAULT_AUTH_FAILURE_THRESHOLD,
+      ),
+      authFailureCooldownMs: clampMs(
+        options.authFailureCooldownMs ?? DEFAULT_AUTH_FAILURE_COOLDOWN_MS,
+        DEFAULT_AUTH_FAILURE_COOLDOWN_MS,
+      ),
+      primaryRecheckMs: clampMs(
+        options.primaryRecheckMs ?? DEFAULT_PRIMARY_RECHECK_MS,
+        DEFAULT_PRIMARY_RECHECK_MS,
       ),
       url: options.url,
     };
+    const endpoints = (options.endpoints ?? []).filter((endpoint) => endpoint.url?.trim());
+    this.endpoints = endpoints.length ? endpoints : [{ url: options.url }];
   }
 
-  public getState(): OneBotClientState {
-    return this.state;
-  }
-
-  public on<K extends keyof OneBotClientEventMap>(
-    event: K,
-    listener: Listener<K>,
-  ): () => void {
-    this.listeners[event].add(listener);
-    return () => this.off(event, listener);
-  }
-
-  public off<K extends keyof OneBotClientEventMap>(event: K, listener: Listener<K>): void {
-    this.listeners[event].delete(listener);
+  // 当前使用(或下一次连接将使用)的端点, index 为 0 时即主端点。
+  public getActiveEndpoint(): { index: number; url: string } {
+    return { index: this.endpointIndex, url: this.endpoints[this.endpointIndex].url };
   }
 
   public async connect(): Promise<void> {
@@ -117,72 +110,13 @@ export default class OneBotWsClient {
     }
 
     this.manuallyClosed = false;
-    this.clearReconnectTimer();
-    this.transitionTo("connecting");
-
-    this.connectPromise = new Promise<void>((resolve, reject) => {
-      let settled = false;
-      let opened = false;
-
-      const headers: Record<string, string> = { ...(this.options.headers ?? {}) };
-      if (this.options.accessToken) {
-        headers.Authorization = `Bearer ${this.options.accessToken}`;
-      }
-
-      const ws = new WebSocket(this.options.url, { headers });
-      this.ws = ws;
-
-      ws.on("open", () => {
-        opened = true;
-        this.reconnectAttempt = 0;
-        this.lastInboundAt = Date.now();
-        this.startHeartbeatMonitor();
-        this.transitionTo("open");
-        this.emit("open");
-
-        if (!settled) {
-          settled = true;
-          resolve();
-        }
-      });
-
-      ws.on("message", (rawData: unknown) => {
-        this.lastInboundAt = Date.now();
-        this.handleInbound(rawData);
-      });
-
-      ws.on("error", (error:Error) => {
-        this.options.logger?.error?.("[onebot] websocket error", error);
-        this.emit("error", createClientError("WebSocket error", error));
-        if (!opened && !settled) {
-          settled = true;
-          reject(createClientError("WebSocket connect failed", error));
-        }
-      });
-
-      ws.on("close", (code: number, reasonBuffer: Buffer) => {
-        const reason = toReason(reasonBuffer);
-        this.handleSocketClose({
-          code,
-          reason,
-          wasClean: true,
-        });
-        if (!opened && !settled) {
-          settled = true;
-          reject(createClientError(`WebSocket closed before open (${code} ${reason})`));
-        }
-      });
-    }).finally(() => {
-      this.connectPromise = null;
-    });
-
-    return this.connectPromise;
+    return this.attemptConnect();
   }
 
   public async disconnect(code = 1000, reason = "manual disconnect"): Promise<void> {
     this.manuallyClosed = true;
     this.clearReconnectTimer();
-    this.stopHeartbeatMonitor();
+    this.stopPrimaryRecheck();
     this.transitionTo("closing");
 
     const ws = this.ws;
@@ -212,144 +146,150 @@ export default class OneBotWsClient {
     this.rejectAllPending(createClientError("Disconnected"));
   }
 
-  public async callAction<TData = unknown, TParams = Record<string, unknown>>(
-    action: string,
-    params?: TParams,
-    options?: { timeoutMs?: number; echo?: string },
-  ): Promise<OneBotApiResponse<TData>> {
-    const ws = this.ws;
-    if (!ws || this.state !== "open" || ws.readyState !== WebSocket.OPEN) {
-      throw createClientError("WebSocket is not connected");
+  // 跳过当前退避等待立即重连; 重连已耗尽时重新开始计数。
+  public async reconnectNow(): Promise<void> {
+    if (this.state === "open") {
+      return;
+    }
+    if (this.exhausted) {
+      this.resetBackoff();
     }
+    // connect 会清除等待中的重连计时; 失败时 close 回调照常按退避重新调度。
+    return this.connect();
+  }
 
-    const timeoutMs = clampMs(options?.timeoutMs ?? this.options.requestTimeoutMs, this.options.requestTimeoutMs);
-    const echo = options?.echo ?? this.generateEcho();
-    const payload: OneBotActionRequest<TParams> = {
-      action,
-      params,
-      echo,
-    };
+  // 清空重连次数与鉴权失败计数(关闭熔断); 正在等待的重连按基础延迟重新调度。
+  public resetBackoff(): void {
+    this.reconnectAttempt = 0;
+    this.authFailures = 0;
+    this.exhausted = false;
+    if (this.reconnectTimer) {
+      this.clearReconnectTimer();
+      this.scheduleReconnect("backoff_reset");
+    }
+  }
 
-    this.emit("raw", { direction: "out", data: payload });
-
-    return new Promise<OneBotApiResponse<TData>>((resolve, reject) => {
-      const timer = setTimeout(() => {
-        this.pendingRequests.delete(echo);
-        const timeoutEvent: OneBotTimeoutEvent = { action, echo, timeoutMs };
-        this.emit("timeout", timeoutEvent);
-        reject(createClientError(`OneBot action timeout: ${action} (${timeoutMs}ms)`));
-      }, timeoutMs);
-
-      this.pendingRequests.set(echo, {
-        action,
-        timeoutMs,
-        resolve: (value) => resolve(value as OneBotApiResponse<TData>),
-        reject,
-        timer,
-      });
+  // 实际的连接流程; 计时器触发的重连直接走这里, 不重置手动断开标记, 避免 disconnect 后又被重连拉起。
+  private attemptConnect(): Promise<void> {
+    if (this.connectPromise) {
+      return this.connectPromise;
+    }
 
-      try {
-        ws.send(JSON.stringify(payload));
-      } catch (error) {
-        const pending = this.pendingRequests.get(echo);
-        if (pending) {
-          clearTimeout(pending.timer);
-          this.pendingRequests.delete(echo);
+    this.clearReconnectTimer();
+    this.transitionTo("connecting");
+
+    // 依次尝试各端点(从当前端点开始), 全部失败才拒绝; 之后的重连同样每次轮换一整轮。
+    this.connectPromise = (async () => {
+      let lastError: unknown;
+      for (let tried = 0; tried < this.endpoints.length; tried += 1) {
+        try {
+          await this.openSocket(tried === this.endpoints.length - 1);
+          return;
+        } catch (error) {
+          lastError = error;
+          if (this.manuallyClosed) {
+            break;
+          }
         }
-        reject(createClientError(`Failed to send action: ${action}`, error));
       }
+      throw lastError;
+    })().finally(() => {
+      this.connectPromise = null;
     });
-  }
 
-  public sendPrivateMsg(
-    userId: number,
-    message: string | unknown[],
-  ): Promise<OneBotApiResponse<{ message_id?: number | string }>> {
-    return this.callAction<{ message_id?: number | string }, { user_id: number; message: string | unknown[] }>(
-      "send_private_msg",
-      {
-        user_id: userId,
-        message,
-      },
-    );
+    return this.connectPromise;
   }
 
-  public sendGroupMsg(
-    groupId: number,
-    message: string | unknown[],
-  ): Promise<OneBotApiResponse<{ message_id?: number | string }>> {
-    return this.callAction<{ message_id?: number | string }, { group_id: number; message: string | unknown[] }>(
-      "send_group_msg",
-      {
-        group_id: groupId,
-        message,
-      },
-    );
-  }
+  // 连接当前端点; 握手失败时切换到下一个端点并拒绝。只有一轮中的最后一个端点失败才按断线处理(触发重连)。
+  private openSocket(isLastEndpoint: boolean): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      let opened = false;
+      let connectError: Error | null = null;
 
-  private emit<K extends keyof OneBotClientEventMap>(
-    event: K,
-    payload?: Parameters<OneBotClientEventMap[K]>[0],
-  ): void {
-    const eventListeners = this.listeners[event];
-    if (!eventListeners.size) {
-      return;
-    }
-    for (const listener of eventListeners) {
-      try {
-        (listener as (arg?: unknown) => void)(payload);
-      } catch (error) {
-        this.options.logger?.warn?.("[onebot] listener error", event, error);
-      }
-    }
-  }
+      const endpoint = this.endpoints[this.endpointIndex];
+      const ws = new WebSocket(endpoint.url, { headers: this.buildHeaders(endpoint) });
+      this.ws = ws;
 
-  private handleInbound(rawData: unknown): void {
-    const text = toText(rawData);
-    let payload: unknown;
+      ws.on("open", () => {
+        opened = true;
+        this.reconnectAttempt = 0;
+        this.authFailures = 0;
+        this.exhausted = false;
+        this.transitionTo("open");
+        this.emit("open");
+        this.startPrimaryRecheck();
+        resolve();
+      });
 
-    try {
-      payload = JSON.parse(text) as unknown;
-    } catch (error) {
-      this.emit("raw", { direction: "in", data: text });
-      this.emit("error", createClientError("Failed to parse inbound JSON", error));
-      return;
-    }
+      ws.on("message", (rawData: unknown) => {
+        this.handleInbound(rawData);
+      });
 
-    this.emit("raw", { direction: "in", data: payload });
+      ws.on("error", (error: Error) => {
+        this.logger?.error?.("[onebot] websocket error", error);
+        this.emit("error", createClientError("WebSocket error", error));
+        // ws 对非 101 的升级响应报错 "Unexpected server response: <status>"
+        if (!opened && /Unexpected server response: (401|403)\b/.test(error.message)) {
+          this.authFailures += 1;
+        }
+        if (!opened) {
+          connectError = error;
+        }
+      });
 
-    if (isApiResponsePacket(payload)) {
-      this.emit("response", payload);
-      if (typeof payload.echo === "string") {
-        const pending = this.pendingRequests.get(payload.echo);
-        if (pending) {
-          clearTimeout(pending.timer);
-          this.pendingRequests.delete(payload.echo);
-          pending.resolve(payload);
+      // 握手失败时 ws 先触发 error 再触发 close, 统一在 close 中拒绝, 保证旧连接收尾后才尝试下一个端点。
+      ws.on("close", (code: number, reasonBuffer: Buffer) => {
+        const reason = toReason(reasonBuffer);
+        if (opened) {
+          // 已建立的连接断开后从主端点重新开始; 手动断开不切换
+          if (!this.manuallyClosed) {
+            this.switchEndpoint(0, `close:${code}`);
+          }
+          this.handleSocketClose({ code, reason, wasClean: true });
+          return;
         }
-      }
-      return;
-    }
+        if (!this.manuallyClosed) {
+          this.switchEndpoint((this.endpointIndex + 1) % this.endpoints.length, "connect_failed");
+        }
+        if (isLastEndpoint || this.manuallyClosed) {
+          this.handleSocketClose({ code, reason, wasClean: true });
+        } else if (this.ws === ws) {
+          this.ws = null;
+        }
+        reject(
+          connectError
+            ? createClientError("WebSocket connect failed", connectError)
+            : createClientError(`WebSocket closed before open (${code} ${reason})`),
+        );
+      });
+    });
+  }
 
-    if (isEventPacket(payload)) {
-      this.emit("event", payload);
-      if (payload.post_type === "message") {
-        this.emit("message", payload as OneBotMessageEvent);
-      } else if (payload.post_type === "notice") {
-        this.emit("notice", payload);
-      } else if (payload.post_type === "request") {
-        this.emit("request", payload);
-      } else if (payload.post_type === "meta_event") {
-        this.emit("meta_event", payload);
-      }
-      return;
+  protected assertWritable(): void {
+    const ws = this.ws;
+    if (!ws || this.state !== "open" || ws.readyState !== WebSocket.OPEN) {
+      throw createClientError("WebSocket is not connected");
     }
+  }
 
-    this.emit("error", createClientError("Received unsupported OneBot payload"));
+  protected sendAction(
+    payload: OneBotActionRequest<unknown>,
+    timeoutMs: number,
+  ): Promise<OneBotApiResponse<unknown>> {
+    return this.awaitEchoResponse(payload, timeoutMs, (text) => {
+      this.assertWritable();
+      this.ws?.send(text);
+    });
+  }
+
+  // 对端已失联时 close() 会一直等待关闭握手, 直接 terminate 以便立即触发 close 与重连。
+  protected handleHeartbeatTimeout(timeoutMs: number): void {
+    super.handleHeartbeatTimeout(timeoutMs);
+    this.ws?.terminate();
   }
 
   private handleSocketClose(event: OneBotCloseEvent): void {
-    this.stopHeartbeatMonitor();
+    this.stopPrimaryRecheck();
     this.ws = null;
     this.transitionTo("closed");
     this.emit("close", event);
@@ -365,40 +305,53 @@ export default class OneBotWsClient {
   }
 
   private scheduleReconnect(reason: string): void {
-    if (this.reconnectTimer) {
+    if (this.reconnectTimer || this.exhausted || this.manuallyClosed) {
       return;
     }
 
     const nextAttempt = this.reconnectAttempt + 1;
-    if (nextAttempt > this.options.reconnectMaxAttempts) {
-      this.emit(
-        "error",
-        createClientError(
-          `Reconnect exhausted after ${this.options.reconnectMaxAttempts} attempts (${reason})`,
-        ),
-      );
+    const maxAttempts = this.options.reconnectMaxAttempts;
+    if (maxAttempts > 0 && nextAttempt > maxAttempts) {
+      const error = createClientError(`Reconnect exhausted after ${maxAttempts} attempts (${reason})`);
+      this.exhausted = true;
+      this.transitionTo("closed");
+      this.rejectOutboundQueue(error);
+      this.emit("error", error);
+      this.emit("reconnect_exhausted", { attempts: maxAttempts, reason });
       return;
     }
 
+    // 连续鉴权失败说明令牌有误, 快速重试没有意义, 熔断后按冷却时长慢速重试。
+    const circuitOpen =
+      this.options.authFailureThreshold > 0 && this.authFailures >= this.options.authFailureThreshold;
+    // 每次重连都会轮换全部端点; 不限次数时 nextAttempt 持续增长, 限制指数避免溢出。
     const exponentialDelay = Math.min(
       this.options.reconnectMaxDelayMs,
-      this.options.reconnectBaseDelayMs * 2 ** (nextAttempt - 1),
+      this.options.reconnectBaseDelayMs * 2 ** Math.min(nextAttempt - 1, 30),
     );
     const jitterMs = Math.floor(Math.random() * 300);
-    const delayMs = exponentialDelay + jitterMs;
+    const delayMs = (circuitOpen ? this.options.authFailureCooldownMs : exponentialDelay) + jitterMs;
     this.transitionTo("reconnecting");
 
     const reconnectEvent: OneBotReconnectEvent = {
       attempt: nextAttempt,
       delayMs,
       reason,
+      circuitOpen,
     };
     this.emit("reconnecting", reconnectEvent);
 
     this.reconnectTimer = setTimeout(() => {
       this.reconnectTimer = null;
+      if (this.manuallyClosed) {
+        return;
+      }
       this.reconnectAttempt = nextAttempt;
-      void this.connect().catch((error) => {
+      void this.attemptConnect().catch((error) => {
+        // 重连进行中被手动断开时, 失败是预期结果, 不再重新调度
+        if (this.manuallyClosed) {
+          return;
+        }
         this.emit("error", createClientError("Reconnect attempt failed", error));
         this.scheduleReconnect("connect_failed");
       });
@@ -413,48 +366,68 @@ export default class OneBotWsClient {
     this.reconnectTimer = null;
   }
 
-  private startHeartbeatMonitor(): void {
-    this.stopHeartbeatMonitor();
-    const timeoutMs = this.options.heartbeatTimeoutMs;
-    if (!timeoutMs || timeoutMs <= 0) {
-      return;
+  private buildHeaders(endpoint: OneBotWsEndpoint): Record<string, string> {
+    const headers: Record<string, string> = { ...(this.options.headers ?? {}) };
+    const accessToken = endpoint.accessToken || this.options.accessToken;
+    if (accessToken) {
+      headers.Authorization = `Bearer ${accessToken}`;
     }
-    const checkInterval = Math.max(1000, Math.floor(timeoutMs / 2));
-    this.heartbeatTimer = setInterval(() => {
-      if (Date.now() - this.lastInboundAt <= timeoutMs) {
-        return;
-      }
-      this.emit("error", createClientError(`Heartbeat timeout after ${timeoutMs}ms`));
-      try {
-        this.ws?.close(4000, "heartbeat timeout");
-      } catch (error) {
-        this.emit("error", createClientError("Failed to close timed-out socket", error));
-      }
-    }, checkInterval);
+    return headers;
   }
 
-  private stopHeartbeatMonitor(): void {
-    if (!this.heartbeatTimer) {
+  private switchEndpoint(index: number, reason: string): void {
+    if (index === this.endpointIndex) {
       return;
     }
-    clearInterval(this.heartbeatTimer);
-    this.heartbeatTimer = null;
+    const from = this.endpointIndex;
+    this.endpointIndex = index;
+    const url = this.endpoints[index].url;
+    this.logger?.warn?.(`[onebot] switching endpoint #${from} -> #${index} ${redactUrl(url)} (${reason})`);
+    this.emit("failover", { from, to: index, url, reason });
   }
 
-  private rejectAllPending(error: OneBotClientError): void {
-    for (const [echo, pending] of this.pendingRequests.entries()) {
-      clearTimeout(pending.timer);
-      pending.reject(error);
-      this.pendingRequests.delete(echo);
+  // 连接在备用端点上时, 定期试连主端点; 握手成功即关闭当前连接, 由 close 回调切回主端点重连。
+  private startPrimaryRecheck(): void {
+    this.stopPrimaryRecheck();
+    if (this.endpointIndex === 0 || this.options.primaryRecheckMs <= 0) {
+      return;
     }
+    this.primaryRecheckTimer = setInterval(() => {
+      if (this.primaryProbe || this.state !== "open") {
+        return;
+      }
+      const primary = this.endpoints[0];
+      const probe = new WebSocket(primary.url, {
+        headers: this.buildHeaders(primary),
+        handshakeTimeout: DEFAULT_PRIMARY_RECHECK_TIMEOUT_MS,
+      });
+      this.primaryProbe = probe;
+      probe.on("open", () => {
+        const current = this.primaryProbe === probe && this.state === "open";
+        probe.terminate();
+        if (!current) {
+          return;
+        }
+        this.logger?.info?.(`[onebot] primary endpoint ${redactUrl(primary.url)} is reachable again, failing back`);
+        this.ws?.close(1000, "failback to primary endpoint");
+      });
+      probe.on("error", () => {
+        probe.terminate();
+      });
+      probe.on("close", () => {
+        if (this.primaryProbe === probe) {
+          this.primaryProbe = null;
+        }
+      });
+    }, this.options.primaryRecheckMs);
   }
 
-  private transitionTo(next: OneBotClientState): void {
-    this.state = next;
-  }
-
-  private generateEcho(): string {
-    this.echoSeq += 1;
-    return `ob_${Date.now()}_${this.echoSeq}`;
+  private stopPrimaryRecheck(): void {
+    if (this.primaryRecheckTimer) {
+      clearInterval(this.primaryRecheckTimer);
+      this.primaryRecheckTimer = null;
+    }
+    this.primaryProbe?.terminate();
+    this.primaryProbe = null;
   }
 }
@@ -3,4 +3,19 @@ export const DEFAULT_RECONNECT_ENABLED = true;
 export const DEFAULT_RECONNECT_MAX_ATTEMPTS = 20;
 export const DEFAULT_RECONNECT_BASE_DELAY_MS = 500;
 export const DEFAULT_RECONNECT_MAX_DELAY_MS = 30000;
+// 连续鉴权失败(升级请求返回 401/403)达到该次数后熔断, 改为按冷却时长重试
+export const DEFAULT_AUTH_FAILURE_THRESHOLD = 3;
+export const DEFAULT_AUTH_FAILURE_COOLDOWN_MS = 5 * 60 * 1000;
+export const DEFAULT_PRIMARY_RECHECK_MS = 60000;
+export const DEFAULT_PRIMARY_RECHECK_TIMEOUT_MS = 10000;
 export const DEFAULT_REQUEST_TIMEOUT_MS = 15000;
+export const DEFAULT_REVERSE_HOST = "0.0.0.0";
+export const DEFAULT_REVERSE_PATH = "/onebot/v11/ws";
+export const DEFAULT_HTTP_POST_HOST = "0.0.0.0";
+export const DEFAULT_HTTP_POST_PATH = "/";
+export const DEFAULT_HTTP_POST_BODY_MAX_BYTES = 4 * 1024 * 1024;
+export const DEFAULT_QUICK_OPERATION_TIMEOUT_MS = 3000;
+export const DEFAULT_OUTBOUND_QUEUE_MAX_SIZE = 100;
+export const DEFAULT_OUTBOUND_QUEUE_MAX_AGE_MS = 30000;
+// 未配置心跳超时时, 连续错过该数量的心跳即视为超时
+export const DEFAULT_HEARTBEAT_MISSED_LIMIT = 3;
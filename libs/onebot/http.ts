@@ -0,0 +1,283 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type {
+  OneBotActionRequest,
+  OneBotApiResponse,
+  OneBotHttpClientOptions,
+  OneBotTimeoutEvent,
+} from "./types";
+import {
+  DEFAULT_HTTP_POST_BODY_MAX_BYTES,
+  DEFAULT_HTTP_POST_HOST,
+  DEFAULT_HTTP_POST_PATH,
+  DEFAULT_QUICK_OPERATION_TIMEOUT_MS,
+} from "./const";
+import {
+  clampMs,
+  createClientError,
+  createTimeoutError,
+  isApiResponsePacket,
+  isEventPacket,
+  readHeader,
+  verifySignature,
+} from "./util";
+import OneBotTransport from "./transport";
+
+// OneBot HTTP传输: 动作通过 HTTP API 发送, 事件通过本地 HTTP 监听接收 OneBot 实现的 POST 上报。
+// HTTP 本身无长连接, 监听成功(或无需监听)即视为 open。
+export default class OneBotHttpClient extends OneBotTransport {
+  private readonly options: Required<
+    Pick<OneBotHttpClientOptions, "postHost" | "postPath" | "postBodyMaxBytes" | "quickOperationTimeoutMs">
+  > &
+    Omit<
+      OneBotHttpClientOptions,
+      "postHost" | "postPath" | "postBodyMaxBytes" | "quickOperationTimeoutMs" | "requestTimeoutMs" | "logger"
+    >;
+
+  private server: Server | null = null;
+  private connectPromise: Promise<void> | null = null;
+
+  constructor(options: OneBotHttpClientOptions) {
+    super(options);
+    this.options = {
+      ...options,
+      apiUrl: options.apiUrl.replace(/\/+$/, ""),
+      postHost: options.postHost || DEFAULT_HTTP_POST_HOST,
+      postPath: options.postPath || DEFAULT_HTTP_POST_PATH,
+      postBodyMaxBytes: clampMs(
+        options.postBodyMaxBytes ?? DEFAULT_HTTP_POST_BODY_MAX_BYTES,
+        DEFAULT_HTTP_POST_BODY_MAX_BYTES,
+      ),
+      quickOperationTimeoutMs: clampMs(
+        options.quickOperationTimeoutMs ?? DEFAULT_QUICK_OPERATION_TIMEOUT_MS,
+        DEFAULT_QUICK_OPERATION_TIMEOUT_MS,
+      ),
+    };
+  }
+
+  public async connect(): Promise<void> {
+    if (this.state === "open") {
+      return;
+    }
+    if (this.connectPromise) {
+      return this.connectPromise;
+    }
+
+    this.transitionTo("connecting");
+    this.connectPromise = this.listen()
+      .then(() => {
+        this.transitionTo("open");
+        this.emit("open");
+      })
+      .catch((error: unknown) => {
+        this.transitionTo("closed");
+        throw error;
+      })
+      .finally(() => {
+        this.connectPromise = null;
+      });
+
+    return this.connectPromise;
+  }
+
+  public async disconnect(code = 1000, reason = "manual disconnect"): Promise<void> {
+    const wasOpen = this.state === "open";
+    this.transitionTo("closing");
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>((resolve) => {
+        server.close(() => resolve());
+        server.closeAllConnections();
+      });
+    }
+    this.transitionTo("closed");
+    if (wasOpen) {
+      this.emit("close", { code, reason, wasClean: true });
+    }
+  }
+
+  protected assertWritable(): void {
+    if (this.state !== "open") {
+      throw createClientError("OneBot HTTP client is not started");
+    }
+  }
+
+  protected async sendAction(
+    payload: OneBotActionRequest<unknown>,
+    timeoutMs: number,
+  ): Promise<OneBotApiResponse<unknown>> {
+    const { action } = payload;
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.options.accessToken) {
+      headers.Authorization = `Bearer ${this.options.accessToken}`;
+    }
+
+    let resp: Response;
+    try {
+      resp = await fetch(`${this.options.apiUrl}/${encodeURIComponent(action)}`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(payload.params ?? {}),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (error) {
+      if ((error as Error | undefined)?.name === "TimeoutError") {
+        const timeoutEvent: OneBotTimeoutEvent = { action, echo: payload.echo ?? "", timeoutMs };
+        this.emit("timeout", timeoutEvent);
+        throw createTimeoutError(action, timeoutMs, error);
+      }
+      throw createClientError(`Failed to send action: ${action}`, error);
+    }
+
+    if (!resp.ok) {
+      const err = createClientError(`OneBot HTTP API ${action} failed (${resp.status} ${resp.statusText})`);
+      err.code = resp.status;
+      throw err;
+    }
+
+    let body: unknown;
+    try {
+      body = (await resp.json()) as unknown;
+    } catch (error) {
+      throw createClientError(`Failed to parse OneBot HTTP response: ${action}`, error);
+    }
+    this.emit("raw", { direction: "in", data: body });
+    if (!isApiResponsePacket(body)) {
+      throw createClientError(`Received unsupported OneBot HTTP response: ${action}`);
+    }
+    const response = { ...body, echo: payload.echo };
+    this.emit("response", response);
+    return response;
+  }
+
+  private async listen(): Promise<void> {
+    const port = this.options.postPort;
+    if (!port || port <= 0 || this.server) {
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const server = createServer((req, res) => {
+        void this.handlePost(req, res);
+      });
+      let listening = false;
+      server.on("error", (error: Error) => {
+        this.logger?.error?.("[onebot] http post server error", error);
+        this.emit("error", createClientError("HTTP POST server error", error));
+        if (!listening) {
+          reject(
+            createClientError(
+              `HTTP POST listen failed on ${this.options.postHost}:${port}${this.options.postPath}`,
+              error,
+            ),
+          );
+        }
+      });
+      server.listen(port, this.options.postHost, () => {
+        listening = true;
+        this.server = server;
+        resolve();
+      });
+    });
+  }
+
+  private async handlePost(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const pathname = new URL(req.url ?? "/", "http://localhost").pathname;
+    if (pathname !== this.options.postPath) {
+      res.writeHead(404).end();
+      return;
+    }
+    if (req.method !== "POST") {
+      res.writeHead(405, { Allow: "POST" }).end();
+      return;
+    }
+
+    let body: Buffer;
+    try {
+      body = await this.readBody(req);
+    } catch (error) {
+      this.emit("error", createClientError("Failed to read HTTP POST body", error));
+      res.writeHead(413).end();
+      return;
+    }
+
+    if (this.options.secret) {
+      const signature = readHeader(req.headers, "x-signature");
+      if (!signature) {
+        res.writeHead(401).end();
+        return;
+      }
+      if (!verifySignature(body, this.options.secret, signature)) {
+        this.logger?.warn?.("[onebot] http post signature mismatch");
+        res.writeHead(403).end();
+        return;
+      }
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(body.toString("utf8")) as unknown;
+    } catch (error) {
+      this.emit("raw", { direction: "in", data: body.toString("utf8") });
+      this.emit("error", createClientError("Failed to parse inbound JSON", error));
+      res.writeHead(400).end();
+      return;
+    }
+
+    this.emit("raw", { direction: "in", data: payload });
+    this.dispatchPacket(payload);
+
+    const operation = isEventPacket(payload) ? await this.resolveQuickOperation(payload) : null;
+    if (!operation) {
+      res.writeHead(204).end();
+      return;
+    }
+    res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify(operation));
+  }
+
+  private async resolveQuickOperation(
+    event: Parameters<NonNullable<OneBotHttpClientOptions["resolveQuickOperation"]>>[0],
+  ): Promise<Record<string, unknown> | null> {
+    const resolver = this.options.resolveQuickOperation;
+    if (!resolver) {
+      return null;
+    }
+    let timer: NodeJS.Timeout | null = null;
+    try {
+      // OneBot 实现会同步等待上报响应, 超时则放弃快速操作, 避免阻塞后续上报。
+      const operation = await Promise.race([
+        Promise.resolve(resolver(event)),
+        new Promise<null>((resolve) => {
+          timer = setTimeout(() => resolve(null), this.options.quickOperationTimeoutMs);
+        }),
+      ]);
+      return operation ?? null;
+    } catch (error) {
+      this.logger?.warn?.("[onebot] quick operation resolver error", error);
+      return null;
+    } finally {
+      if (timer) {
+        clearTimeout(timer);
+      }
+    }
+  }
+
+  private readBody(req: IncomingMessage): Promise<Buffer> {
+    const limit = this.options.postBodyMaxBytes;
+    return new Promise<Buffer>((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      req.on("data", (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > limit) {
+          reject(createClientError(`HTTP POST body exceeds ${limit} bytes`));
+          req.destroy();
+          return;
+        }
+        chunks.push(chunk);
+      });
+      req.on("end", () => resolve(Buffer.concat(chunks)));
+      req.on("error", reject);
+    });
+  }
+}
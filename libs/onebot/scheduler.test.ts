@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import OneBotSendScheduler from "./scheduler";
+
+// 模拟 dispatchQQMessage: 逐条提交并等待上一条完成, 每次提交时队列都是空的。
+async function sendSequentially(scheduler: OneBotSendScheduler, target: string, count: number): Promise<number[]> {
+  const sentAt: number[] = [];
+  for (let i = 0; i < count; i += 1) {
+    await scheduler.schedule(target, async () => {
+      sentAt.push(Date.now());
+    });
+  }
+  return sentAt;
+}
+
+function gaps(times: number[]): number[] {
+  return times.slice(1).map((time, index) => time - times[index]);
+}
+
+test("逐条发送到同一目标时保持发送间隔", async () => {
+  const scheduler = new OneBotSendScheduler({
+    accountRatePerMinute: 0,
+    targetRatePerMinute: 0,
+    spacingMs: 100,
+    jitterMs: 0,
+  });
+  const sentAt = await sendSequentially(scheduler, "group:1", 3);
+  for (const gap of gaps(sentAt)) {
+    assert.ok(gap >= 95, `gap ${gap}ms shorter than spacing`);
+  }
+});
+
+test("逐条发送到同一目标时受目标级令牌桶限速", async () => {
+  const scheduler = new OneBotSendScheduler({
+    accountRatePerMinute: 0,
+    targetBurst: 1,
+    targetRatePerMinute: 600,
+    spacingMs: 0,
+    jitterMs: 0,
+  });
+  const sentAt = await sendSequentially(scheduler, "group:1", 3);
+  for (const gap of gaps(sentAt)) {
+    assert.ok(gap >= 95, `gap ${gap}ms shorter than token refill`);
+  }
+});
+
+test("不同目标互不影响", async () => {
+  const scheduler = new OneBotSendScheduler({
+    accountRatePerMinute: 0,
+    targetBurst: 1,
+    targetRatePerMinute: 60,
+    spacingMs: 1000,
+    jitterMs: 0,
+  });
+  const startedAt = Date.now();
+  await sendSequentially(scheduler, "group:1", 1);
+  await sendSequentially(scheduler, "group:2", 1);
+  assert.ok(Date.now() - startedAt < 500);
+});
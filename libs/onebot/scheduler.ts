@@ -0,0 +1,181 @@
+import type { OneBotLogger, OneBotSendSchedulerOptions } from "./types";
+import { isRetryableActionError } from "./util";
+
+type Job = {
+  task: () => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (reason?: unknown) => void;
+};
+
+type TargetQueue = {
+  jobs: Job[];
+  running: boolean;
+  lastSentAt: number;
+  bucket: TokenBucket;
+  idleTimer: NodeJS.Timeout | null;
+};
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// 令牌桶: capacity 为突发上限, 每分钟补充 ratePerMinute 个令牌。
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(
+    private readonly capacity: number,
+    private readonly ratePerMinute: number,
+  ) {
+    this.tokens = capacity;
+  }
+
+  // 取到令牌返回 0, 否则返回需要等待的毫秒数。
+  public tryTake(): number {
+    if (this.ratePerMinute <= 0) {
+      return 0;
+    }
+    const now = Date.now();
+    const perMs = this.ratePerMinute / 60_000;
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * perMs);
+    this.updatedAt = now;
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return 0;
+    }
+    return Math.ceil((1 - this.tokens) / perMs);
+  }
+
+  public async take(): Promise<void> {
+    let waitMs = this.tryTake();
+    while (waitMs > 0) {
+      await sleep(waitMs);
+      waitMs = this.tryTake();
+    }
+  }
+}
+
+// 出站发送调度器: 账号级与目标级双层令牌桶限速, 同一目标严格按提交顺序发送,
+// 相邻两条之间保持带随机抖动的间隔; 超时或可重试的 retcode 按退避重试, 永久错误立即失败。
+export default class OneBotSendScheduler {
+  private readonly options: Required<OneBotSendSchedulerOptions>;
+  private readonly accountBucket: TokenBucket;
+  private readonly targets = new Map<string, TargetQueue>();
+
+  constructor(
+    options: OneBotSendSchedulerOptions,
+    private readonly logger?: OneBotLogger,
+  ) {
+    this.options = {
+      accountRatePerMinute: options.accountRatePerMinute ?? 20,
+      accountBurst: Math.max(1, options.accountBurst ?? 5),
+      targetRatePerMinute: options.targetRatePerMinute ?? 10,
+      targetBurst: Math.max(1, options.targetBurst ?? 3),
+      spacingMs: Math.max(0, options.spacingMs ?? 800),
+      jitterMs: Math.max(0, options.jitterMs ?? 400),
+      maxRetries: Math.max(0, options.maxRetries ?? 2),
+      retryDelayMs: Math.max(0, options.retryDelayMs ?? 1000),
+    };
+    this.accountBucket = new TokenBucket(this.options.accountBurst, this.options.accountRatePerMinute);
+  }
+
+  public schedule<T>(target: string, task: () => Promise<T>): Promise<T> {
+    let queue = this.targets.get(target);
+    if (!queue) {
+      queue = {
+        jobs: [],
+        running: false,
+        lastSentAt: 0,
+        bucket: new TokenBucket(this.options.targetBurst, this.options.targetRatePerMinute),
+        idleTimer: null,
+      };
+      this.targets.set(target, queue);
+    }
+    if (queue.idleTimer) {
+      clearTimeout(queue.idleTimer);
+      queue.idleTimer = null;
+    }
+    const promise = new Promise<T>((resolve, reject) => {
+      queue.jobs.push({ task, resolve: resolve as (value: unknown) => void, reject });
+    });
+    void this.drain(target, queue);
+    return promise;
+  }
+
+  // 清空所有排队中的发送任务, 正在执行的任务不受影响。
+  public clear(error: Error): void {
+    for (const queue of this.targets.values()) {
+      for (const job of queue.jobs.splice(0)) {
+        job.reject(error);
+      }
+    }
+  }
+
+  private async drain(target: string, queue: TargetQueue): Promise<void> {
+    if (queue.running) {
+      return;
+    }
+    queue.running = true;
+    try {
+      while (queue.jobs.length) {
+        const job = queue.jobs.shift()!;
+        try {
+          job.resolve(await this.runWithRetry(target, queue, job.task));
+        } catch (error) {
+          job.reject(error);
+        }
+      }
+    } finally {
+      queue.running = false;
+      if (!queue.jobs.length) {
+        this.scheduleIdleRelease(target, queue);
+      }
+    }
+  }
+
+  // 逐条等待发送时队列每条之后都会清空, 目标状态(上次发送时间、令牌桶)必须保留,
+  // 否则间隔与目标级限速失效; 只在空闲超过间隔与令牌桶回满所需时长后才释放。
+  private scheduleIdleRelease(target: string, queue: TargetQueue): void {
+    const { targetBurst, targetRatePerMinute, spacingMs, jitterMs } = this.options;
+    const refillMs = targetRatePerMinute > 0 ? Math.ceil((targetBurst * 60_000) / targetRatePerMinute) : 0;
+    queue.idleTimer = setTimeout(() => {
+      queue.idleTimer = null;
+      if (!queue.running && !queue.jobs.length && this.targets.get(target) === queue) {
+        this.targets.delete(target);
+      }
+    }, Math.max(refillMs, spacingMs + jitterMs));
+    queue.idleTimer.unref?.();
+  }
+
+  private async runWithRetry(target: string, queue: TargetQueue, task: () => Promise<unknown>): Promise<unknown> {
+    for (let attempt = 0; ; attempt += 1) {
+      await this.waitForSlot(queue);
+      try {
+        return await task();
+      } catch (error) {
+        if (attempt >= this.options.maxRetries || !isRetryableActionError(error)) {
+          throw error;
+        }
+        const delayMs = this.options.retryDelayMs * 2 ** attempt + this.jitter();
+        this.logger?.warn?.(
+          `[onebot] send to ${target} failed, retry ${attempt + 1}/${this.options.maxRetries} in ${delayMs}ms`,
+          error,
+        );
+        await sleep(delayMs);
+      }
+    }
+  }
+
+  private async waitForSlot(queue: TargetQueue): Promise<void> {
+    const spacing = queue.lastSentAt + this.options.spacingMs + this.jitter() - Date.now();
+    if (queue.lastSentAt && spacing > 0) {
+      await sleep(spacing);
+    }
+    await queue.bucket.take();
+    await this.accountBucket.take();
+    queue.lastSentAt = Date.now();
+  }
+
+  private jitter(): number {
+    return this.options.jitterMs ? Math.floor(Math.random() * this.options.jitterMs) : 0;
+  }
+}
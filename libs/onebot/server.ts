@@ -0,0 +1,194 @@
+import type { IncomingMessage } from "node:http";
+import WebSocket, { WebSocketServer } from "ws";
+import type { OneBotActionRequest, OneBotApiResponse, OneBotWsServerOptions } from "./types";
+import { DEFAULT_REVERSE_HOST, DEFAULT_REVERSE_PATH } from "./const";
+import { createClientError, extractAccessToken, readHeader, safeEqual, toReason } from "./util";
+import OneBotTransport from "./transport";
+
+// OneBot反向WebSocket服务端, 监听本地端口等待OneBot实现主动接入, 对外暴露与正向客户端一致的接口。
+// 仅支持 Universal 角色连接; 同一时间只保留一个对端, 新连接会顶替旧连接。
+export default class OneBotWsServer extends OneBotTransport {
+  private readonly options: Required<Pick<OneBotWsServerOptions, "host" | "path">> &
+    Omit<OneBotWsServerOptions, "host" | "path" | "requestTimeoutMs" | "logger">;
+
+  private server: WebSocketServer | null = null;
+  private peer: WebSocket | null = null;
+  private listenPromise: Promise<void> | null = null;
+
+  constructor(options: OneBotWsServerOptions) {
+    super(options);
+    this.options = {
+      ...options,
+      host: options.host || DEFAULT_REVERSE_HOST,
+      path: options.path || DEFAULT_REVERSE_PATH,
+    };
+  }
+
+  // 开始监听即视为连接成功; 对端真正接入时才进入 open 状态并触发 open 事件。
+  public async connect(): Promise<void> {
+    if (this.server) {
+      return;
+    }
+    if (this.listenPromise) {
+      return this.listenPromise;
+    }
+
+    this.transitionTo("connecting");
+    this.listenPromise = new Promise<void>((resolve, reject) => {
+      let listening = false;
+      const server = new WebSocketServer({
+        host: this.options.host,
+        port: this.options.port,
+        path: this.options.path,
+        verifyClient: (info, callback) => {
+          const rejection = this.verifyHandshake(info.req);
+          if (rejection) {
+            this.logger?.warn?.(
+              `[onebot] reverse websocket handshake rejected (${rejection.code} ${rejection.message})`,
+            );
+            callback(false, rejection.code, rejection.message);
+            return;
+          }
+          callback(true);
+        },
+      });
+
+      server.on("listening", () => {
+        listening = true;
+        this.server = server;
+        resolve();
+      });
+
+      server.on("error", (error: Error) => {
+        this.logger?.error?.("[onebot] reverse websocket server error", error);
+        this.emit("error", createClientError("Reverse WebSocket server error", error));
+        if (!listening) {
+          this.transitionTo("closed");
+          reject(createClientError(`Reverse WebSocket listen failed on ${this.describeAddress()}`, error));
+        }
+      });
+
+      server.on("connection", (ws: WebSocket, req: IncomingMessage) => {
+        this.attachPeer(ws, readHeader(req.headers, "x-self-id"));
+      });
+    }).finally(() => {
+      this.listenPromise = null;
+    });
+
+    return this.listenPromise;
+  }
+
+  public async disconnect(code = 1000, reason = "manual disconnect"): Promise<void> {
+    this.transitionTo("closing");
+    const peer = this.peer;
+    this.peer = null;
+    if (peer && peer.readyState !== WebSocket.CLOSED) {
+      try {
+        peer.close(code, reason);
+      } catch {
+        // 对端已断开时忽略, 下面统一关闭监听。
+      }
+    }
+
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>((resolve) => {
+        server.close(() => resolve());
+      });
+    }
+
+    this.transitionTo("closed");
+    this.rejectAllPending(createClientError("Disconnected"));
+  }
+
+  protected assertWritable(): void {
+    const peer = this.peer;
+    if (!peer || this.state !== "open" || peer.readyState !== WebSocket.OPEN) {
+      throw createClientError("Reverse WebSocket peer is not connected");
+    }
+  }
+
+  protected sendAction(
+    payload: OneBotActionRequest<unknown>,
+    timeoutMs: number,
+  ): Promise<OneBotApiResponse<unknown>> {
+    return this.awaitEchoResponse(payload, timeoutMs, (text) => {
+      this.assertWritable();
+      this.peer?.send(text);
+    });
+  }
+
+  // 断开失联的对端, 等待 OneBot 实现重新接入; 监听本身保持不变。
+  protected handleHeartbeatTimeout(timeoutMs: number): void {
+    super.handleHeartbeatTimeout(timeoutMs);
+    this.peer?.terminate();
+  }
+
+  private verifyHandshake(req: IncomingMessage): { code: number; message: string } | null {
+    if (this.options.accessToken) {
+      const token = extractAccessToken(req.headers, req.url);
+      if (!safeEqual(token, this.options.accessToken)) {
+        return { code: 401, message: "Unauthorized" };
+      }
+    }
+
+    const selfId = readHeader(req.headers, "x-self-id");
+    if (!selfId) {
+      return { code: 400, message: "Missing X-Self-ID header" };
+    }
+    if (this.options.selfId && selfId !== this.options.selfId) {
+      return { code: 403, message: `Unexpected X-Self-ID ${selfId}` };
+    }
+
+    const role = readHeader(req.headers, "x-client-role");
+    if (role && role.toLowerCase() !== "universal") {
+      return { code: 400, message: `Unsupported X-Client-Role ${role}` };
+    }
+    return null;
+  }
+
+  private attachPeer(ws: WebSocket, selfId: string): void {
+    const previous = this.peer;
+    if (previous) {
+      this.peer = null;
+      try {
+        previous.close(1000, "replaced by new connection");
+      } catch (error) {
+        this.emit("error", createClientError("Failed to close replaced peer", error));
+      }
+    }
+
+    this.peer = ws;
+    this.logger?.info?.(`[onebot] reverse websocket peer connected self_id=${selfId}`);
+    this.transitionTo("open");
+    this.emit("open");
+
+    ws.on("message", (rawData: unknown) => {
+      this.handleInbound(rawData);
+    });
+
+    ws.on("error", (error: Error) => {
+      this.logger?.error?.("[onebot] reverse websocket peer error", error);
+      this.emit("error", createClientError("Reverse WebSocket peer error", error));
+    });
+
+    ws.on("close", (code: number, reasonBuffer: Buffer) => {
+      if (this.peer !== ws) {
+        return;
+      }
+      this.peer = null;
+      const reason = toReason(reasonBuffer);
+      // 监听仍在, 回到等待对端重新接入的状态。
+      if (this.server) {
+        this.transitionTo("connecting");
+      }
+      this.emit("close", { code, reason, wasClean: true });
+      this.rejectAllPending(createClientError(`Reverse WebSocket peer closed (${code} ${reason})`));
+    });
+  }
+
+  private describeAddress(): string {
+    return `${this.options.host}:${this.options.port}${this.options.path}`;
+  }
+}
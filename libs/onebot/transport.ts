@@ -0,0 +1,649 @@
+import type {
+  Listener,
+  OneBotActionRequest,
+  OneBotApiResponse,
+  OneBotClientError,
+  OneBotClientEventMap,
+  OneBotCanSendData,
+  OneBotClientState,
+  OneBotEvent,
+  OneBotFileData,
+  OneBotForwardMsgData,
+  OneBotForwardNode,
+  OneBotForwardSendData,
+  OneBotFriendInfo,
+  OneBotGroupInfo,
+  OneBotGroupMemberInfo,
+  OneBotGroupMsgHistoryData,
+  OneBotHealthEvent,
+  OneBotLogger,
+  OneBotLoginInfo,
+  OneBotMessageEvent,
+  OneBotMessageIdData,
+  OneBotMessageInput,
+  OneBotMetaEvent,
+  OneBotMsgData,
+  OneBotQuickOperation,
+  OneBotStatus,
+  OneBotStrangerInfo,
+  OneBotTimeoutEvent,
+  OneBotTransportOptions,
+  OneBotVersionInfo,
+  PendingRequest,
+  QueuedAction,
+} from "./types";
+import {
+  DEFAULT_HEARTBEAT_MISSED_LIMIT,
+  DEFAULT_OUTBOUND_QUEUE_MAX_AGE_MS,
+  DEFAULT_OUTBOUND_QUEUE_MAX_SIZE,
+  DEFAULT_REQUEST_TIMEOUT_MS,
+} from "./const";
+import OneBotSendScheduler from "./scheduler";
+import {
+  clampMs,
+  createClientError,
+  createTimeoutError,
+  toText,
+  isApiResponsePacket,
+  isEventPacket,
+  unwrapActionResponse,
+} from "./util";
+
+// OneBot传输层基类, 统一事件订阅分发、echo请求匹配和常用动作封装。
+// 正向WebSocket、反向WebSocket、HTTP等具体传输只需实现连接管理和动作发送。
+export default abstract class OneBotTransport {
+  protected state: OneBotClientState = "idle";
+  protected readonly logger?: OneBotLogger;
+  protected readonly requestTimeoutMs: number;
+  protected readonly sendScheduler?: OneBotSendScheduler;
+  private echoSeq = 0;
+
+  private readonly listeners: {
+    [K in keyof OneBotClientEventMap]: Set<OneBotClientEventMap[K]>;
+  } = {
+    open: new Set(),
+    close: new Set(),
+    reconnecting: new Set(),
+    reconnect_exhausted: new Set(),
+    failover: new Set(),
+    error: new Set(),
+    raw: new Set(),
+    event: new Set(),
+    message: new Set(),
+    notice: new Set(),
+    request: new Set(),
+    meta_event: new Set(),
+    response: new Set(),
+    timeout: new Set(),
+    health: new Set(),
+  };
+
+  protected readonly pendingRequests = new Map<string, PendingRequest>();
+  private readonly outboundQueue: QueuedAction[] = [];
+  private readonly outboundQueueOptions?: { maxSize: number; maxAgeMs: number };
+  private readonly heartbeatTimeoutMs?: number;
+  private heartbeatIntervalMs = 0;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private health: OneBotHealthEvent = { state: "healthy" };
+
+  protected constructor(options: OneBotTransportOptions) {
+    this.logger = options.logger;
+    this.requestTimeoutMs = clampMs(
+      options.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS,
+      DEFAULT_REQUEST_TIMEOUT_MS,
+    );
+    if (options.heartbeatTimeoutMs && options.heartbeatTimeoutMs > 0) {
+      this.heartbeatTimeoutMs = options.heartbeatTimeoutMs;
+    }
+    if (options.sendScheduler) {
+      this.sendScheduler = new OneBotSendScheduler(options.sendScheduler, options.logger);
+    }
+    if (options.outboundQueue) {
+      this.outboundQueueOptions = {
+        maxSize: clampMs(
+          options.outboundQueue.maxSize ?? DEFAULT_OUTBOUND_QUEUE_MAX_SIZE,
+          DEFAULT_OUTBOUND_QUEUE_MAX_SIZE,
+        ),
+        maxAgeMs: clampMs(
+          options.outboundQueue.maxAgeMs ?? DEFAULT_OUTBOUND_QUEUE_MAX_AGE_MS,
+          DEFAULT_OUTBOUND_QUEUE_MAX_AGE_MS,
+        ),
+      };
+    }
+  }
+
+  public getState(): OneBotClientState {
+    return this.state;
+  }
+
+  public getHealth(): OneBotHealthEvent {
+    return { ...this.health };
+  }
+
+  public on<K extends keyof OneBotClientEventMap>(
+    event: K,
+    listener: Listener<K>,
+  ): () => void {
+    this.listeners[event].add(listener);
+    return () => this.off(event, listener);
+  }
+
+  public off<K extends keyof OneBotClientEventMap>(event: K, listener: Listener<K>): void {
+    this.listeners[event].delete(listener);
+  }
+
+  public abstract connect(): Promise<void>;
+
+  public abstract disconnect(code?: number, reason?: string): Promise<void>;
+
+  public async callAction<TData = unknown, TParams = Record<string, unknown>>(
+    action: string,
+    params?: TParams,
+    options?: { timeoutMs?: number; echo?: string },
+  ): Promise<OneBotApiResponse<TData>> {
+    const timeoutMs = clampMs(options?.timeoutMs ?? this.requestTimeoutMs, this.requestTimeoutMs);
+    const payload: OneBotActionRequest<TParams> = {
+      action,
+      params,
+      echo: options?.echo ?? this.generateEcho(),
+    };
+
+    if (this.canQueueOutbound()) {
+      const response = await this.enqueueOutbound(payload, timeoutMs);
+      return response as OneBotApiResponse<TData>;
+    }
+
+    this.assertWritable();
+    const response = await this.writeAction(payload, timeoutMs);
+    return response as OneBotApiResponse<TData>;
+  }
+
+  // 快速操作: 对某个上报事件执行回复、同意请求等隐含操作, 对应 `.handle_quick_operation` 动作。
+  public handleQuickOperation(context: OneBotEvent, operation: OneBotQuickOperation): Promise<void> {
+    return this.invokeAction(".handle_quick_operation", { context, operation });
+  }
+
+  // 发送动作并按 retcode 统一判定结果, 成功时直接返回 data, 失败时抛出带 retcode 的错误。
+  public async invokeAction<TData = unknown, TParams = Record<string, unknown>>(
+    action: string,
+    params?: TParams,
+    options?: { timeoutMs?: number },
+  ): Promise<TData> {
+    const response = await this.callAction<TData, TParams>(action, params, options);
+    return unwrapActionResponse(action, response);
+  }
+
+  // ---- 消息 ----
+
+  public sendPrivateMsg(userId: number, message: OneBotMessageInput): Promise<OneBotMessageIdData> {
+    return this.scheduleSend(`private:${userId}`, () =>
+      this.invokeAction("send_private_msg", { user_id: userId, message }),
+    );
+  }
+
+  public sendGroupMsg(groupId: number, message: OneBotMessageInput): Promise<OneBotMessageIdData> {
+    return this.scheduleSend(`group:${groupId}`, () =>
+      this.invokeAction("send_group_msg", { group_id: groupId, message }),
+    );
+  }
+
+  public deleteMsg(messageId: number | string): Promise<void> {
+    return this.invokeAction("delete_msg", { message_id: messageId });
+  }
+
+  public getMsg(messageId: number | string): Promise<OneBotMsgData> {
+    return this.invokeAction("get_msg", { message_id: messageId });
+  }
+
+  public getForwardMsg(id: string): Promise<OneBotForwardMsgData> {
+    return this.invokeAction("get_forward_msg", { id });
+  }
+
+  public sendLike(userId: number, times = 1): Promise<void> {
+    return this.invokeAction("send_like", { user_id: userId, times });
+  }
+
+  // ---- 群管理 ----
+
+  public setGroupKick(groupId: number, userId: number, rejectAddRequest = false): Promise<void> {
+    return this.invokeAction("set_group_kick", {
+      group_id: groupId,
+      user_id: userId,
+      reject_add_request: rejectAddRequest,
+    });
+  }
+
+  // duration 单位为秒, 0 表示解除禁言。
+  public setGroupBan(groupId: number, userId: number, duration = 30 * 60): Promise<void> {
+    return this.invokeAction("set_group_ban", { group_id: groupId, user_id: userId, duration });
+  }
+
+  public setGroupWholeBan(groupId: number, enable = true): Promise<void> {
+    return this.invokeAction("set_group_whole_ban", { group_id: groupId, enable });
+  }
+
+  public setGroupAdmin(groupId: number, userId: number, enable = true): Promise<void> {
+    return this.invokeAction("set_group_admin", { group_id: groupId, user_id: userId, enable });
+  }
+
+  public setGroupCard(groupId: number, userId: number, card = ""): Promise<void> {
+    return this.invokeAction("set_group_card", { group_id: groupId, user_id: userId, card });
+  }
+
+  public setGroupName(groupId: number, groupName: string): Promise<void> {
+    return this.invokeAction("set_group_name", { group_id: groupId, group_name: groupName });
+  }
+
+  public setGroupLeave(groupId: number, isDismiss = false): Promise<void> {
+    return this.invokeAction("set_group_leave", { group_id: groupId, is_dismiss: isDismiss });
+  }
+
+  // ---- 请求处理 ----
+
+  public setFriendAddRequest(flag: string, approve = true, remark?: string): Promise<void> {
+    return this.invokeAction("set_friend_add_request", { flag, approve, remark });
+  }
+
+  public setGroupAddRequest(
+    flag: string,
+    subType: "add" | "invite" | (string & {}),
+    approve = true,
+    reason?: string,
+  ): Promise<void> {
+    // 部分实现(go-cqhttp)读取 type 字段, 这里同时传入。
+    return this.invokeAction("set_group_add_request", {
+      flag,
+      sub_type: subType,
+      type: subType,
+      approve,
+      reason,
+    });
+  }
+
+  // ---- 信息查询 ----
+
+  public getLoginInfo(): Promise<OneBotLoginInfo> {
+    return this.invokeAction("get_login_info");
+  }
+
+  public getStrangerInfo(userId: number, noCache = false): Promise<OneBotStrangerInfo> {
+    return this.invokeAction("get_stranger_info", { user_id: userId, no_cache: noCache });
+  }
+
+  public getFriendList(): Promise<OneBotFriendInfo[]> {
+    return this.invokeAction("get_friend_list");
+  }
+
+  public getGroupInfo(groupId: number, noCache = false): Promise<OneBotGroupInfo> {
+    return this.invokeAction("get_group_info", { group_id: groupId, no_cache: noCache });
+  }
+
+  public getGroupList(): Promise<OneBotGroupInfo[]> {
+    return this.invokeAction("get_group_list");
+  }
+
+  public getGroupMemberInfo(groupId: number, userId: number, noCache = false): Promise<OneBotGroupMemberInfo> {
+    return this.invokeAction("get_group_member_info", {
+      group_id: groupId,
+      user_id: userId,
+      no_cache: noCache,
+    });
+  }
+
+  public getGroupMemberList(groupId: number): Promise<OneBotGroupMemberInfo[]> {
+    return this.invokeAction("get_group_member_list", { group_id: groupId });
+  }
+
+  // ---- 媒体与文件 ----
+
+  public getImage(file: string): Promise<OneBotFileData> {
+    return this.invokeAction("get_image", { file });
+  }
+
+  public getRecord(file: string, outFormat = "mp3"): Promise<OneBotFileData> {
+    return this.invokeAction("get_record", { file, out_format: outFormat });
+  }
+
+  public canSendImage(): Promise<OneBotCanSendData> {
+    return this.invokeAction("can_send_image");
+  }
+
+  public canSendRecord(): Promise<OneBotCanSendData> {
+    return this.invokeAction("can_send_record");
+  }
+
+  // ---- 运行状态 ----
+
+  public getStatus(): Promise<OneBotStatus> {
+    return this.invokeAction("get_status");
+  }
+
+  public getVersionInfo(): Promise<OneBotVersionInfo> {
+    return this.invokeAction("get_version_info");
+  }
+
+  public cleanCache(): Promise<void> {
+    return this.invokeAction("clean_cache");
+  }
+
+  // ---- 常见扩展动作(go-cqhttp / NapCat / LLOneBot), 标准 v11 实现可能不支持 ----
+
+  public getFile(fileId: string): Promise<OneBotFileData> {
+    return this.invokeAction("get_file", { file_id: fileId });
+  }
+
+  public uploadGroupFile(groupId: number, file: string, name: string): Promise<void> {
+    return this.scheduleSend(`group:${groupId}`, () =>
+      this.invokeAction("upload_group_file", { group_id: groupId, file, name }),
+    );
+  }
+
+  public uploadPrivateFile(userId: number, file: string, name: string): Promise<void> {
+    return this.scheduleSend(`private:${userId}`, () =>
+      this.invokeAction("upload_private_file", { user_id: userId, file, name }),
+    );
+  }
+
+  public sendGroupForwardMsg(groupId: number, messages: OneBotForwardNode[]): Promise<OneBotForwardSendData> {
+    return this.scheduleSend(`group:${groupId}`, () =>
+      this.invokeAction("send_group_forward_msg", { group_id: groupId, messages }),
+    );
+  }
+
+  public sendPrivateForwardMsg(userId: number, messages: OneBotForwardNode[]): Promise<OneBotForwardSendData> {
+    return this.scheduleSend(`private:${userId}`, () =>
+      this.invokeAction("send_private_forward_msg", { user_id: userId, messages }),
+    );
+  }
+
+  public getGroupMsgHistory(groupId: number, count: number): Promise<OneBotGroupMsgHistoryData> {
+    return this.invokeAction("get_group_msg_history", { group_id: groupId, count });
+  }
+
+  private writeAction(
+    payload: OneBotActionRequest<unknown>,
+    timeoutMs: number,
+  ): Promise<OneBotApiResponse<unknown>> {
+    this.emit("raw", { direction: "out", data: payload });
+    return this.sendAction(payload, timeoutMs);
+  }
+
+  // 仅在连接建立中或重连中缓冲; 手动断开或放弃重连后直接报错。
+  private canQueueOutbound(): boolean {
+    return (
+      Boolean(this.outboundQueueOptions) &&
+      (this.state === "connecting" || this.state === "reconnecting")
+    );
+  }
+
+  private enqueueOutbound(
+    payload: OneBotActionRequest<unknown>,
+    timeoutMs: number,
+  ): Promise<OneBotApiResponse<unknown>> {
+    const { maxSize, maxAgeMs } = this.outboundQueueOptions!;
+    if (this.outboundQueue.length >= maxSize) {
+      return Promise.reject(
+        createClientError(`Outbound queue full (${maxSize}), dropped action: ${payload.action}`),
+      );
+    }
+    return new Promise<OneBotApiResponse<unknown>>((resolve, reject) => {
+      const entry: QueuedAction = {
+        payload,
+        timeoutMs,
+        enqueuedAt: Date.now(),
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          const index = this.outboundQueue.indexOf(entry);
+          if (index >= 0) {
+            this.outboundQueue.splice(index, 1);
+          }
+          reject(
+            createClientError(
+              `Outbound action ${payload.action} expired after ${maxAgeMs}ms in queue (state=${this.state})`,
+            ),
+          );
+        }, maxAgeMs),
+      };
+      this.outboundQueue.push(entry);
+    });
+  }
+
+  private flushOutboundQueue(): void {
+    const entries = this.outboundQueue.splice(0);
+    for (const entry of entries) {
+      clearTimeout(entry.timer);
+      try {
+        this.assertWritable();
+        this.writeAction(entry.payload, entry.timeoutMs).then(entry.resolve, entry.reject);
+      } catch (error) {
+        entry.reject(error);
+      }
+    }
+  }
+
+  // 拒绝所有缓冲中的动作, 在手动断开或放弃重连时调用。
+  protected rejectOutboundQueue(error: OneBotClientError): void {
+    for (const entry of this.outboundQueue.splice(0)) {
+      clearTimeout(entry.timer);
+      entry.reject(error);
+    }
+  }
+
+  // 发送类动作按目标排队限速; 未配置调度器时立即执行。
+  protected scheduleSend<T>(target: string, task: () => Promise<T>): Promise<T> {
+    return this.sendScheduler ? this.sendScheduler.schedule(target, task) : task();
+  }
+
+  // 当前无法写出报文时直接抛错, 避免请求进入pending后只能等待超时。
+  protected abstract assertWritable(): void;
+
+  protected abstract sendAction(
+    payload: OneBotActionRequest<unknown>,
+    timeoutMs: number,
+  ): Promise<OneBotApiResponse<unknown>>;
+
+  // 基于 echo 字段匹配响应的请求发送方式, 供WebSocket类传输复用。
+  protected awaitEchoResponse(
+    payload: OneBotActionRequest<unknown>,
+    timeoutMs: number,
+    write: (text: string) => void,
+  ): Promise<OneBotApiResponse<unknown>> {
+    const { action } = payload;
+    const echo = payload.echo ?? this.generateEcho();
+    return new Promise<OneBotApiResponse<unknown>>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingRequests.delete(echo);
+        const timeoutEvent: OneBotTimeoutEvent = { action, echo, timeoutMs };
+        this.emit("timeout", timeoutEvent);
+        reject(createTimeoutError(action, timeoutMs));
+      }, timeoutMs);
+
+      this.pendingRequests.set(echo, {
+        action,
+        timeoutMs,
+        resolve,
+        reject,
+        timer,
+      });
+
+      try {
+        write(JSON.stringify({ ...payload, echo }));
+      } catch (error) {
+        const pending = this.pendingRequests.get(echo);
+        if (pending) {
+          clearTimeout(pending.timer);
+          this.pendingRequests.delete(echo);
+        }
+        reject(createClientError(`Failed to send action: ${action}`, error));
+      }
+    });
+  }
+
+  protected emit<K extends keyof OneBotClientEventMap>(
+    event: K,
+    payload?: Parameters<OneBotClientEventMap[K]>[0],
+  ): void {
+    const eventListeners = this.listeners[event];
+    if (!eventListeners.size) {
+      return;
+    }
+    for (const listener of eventListeners) {
+      try {
+        (listener as (arg?: unknown) => void)(payload);
+      } catch (error) {
+        this.logger?.warn?.("[onebot] listener error", event, error);
+      }
+    }
+  }
+
+  protected handleInbound(rawData: unknown): void {
+    const text = toText(rawData);
+    let payload: unknown;
+
+    try {
+      payload = JSON.parse(text) as unknown;
+    } catch (error) {
+      this.emit("raw", { direction: "in", data: text });
+      this.emit("error", createClientError("Failed to parse inbound JSON", error));
+      return;
+    }
+
+    this.emit("raw", { direction: "in", data: payload });
+    this.dispatchPacket(payload);
+  }
+
+  protected dispatchPacket(payload: unknown): void {
+    // 任何入站数据都说明连接存活, 重新计时。
+    if (this.heartbeatTimer) {
+      this.armHeartbeatWatchdog();
+    }
+    if (isApiResponsePacket(payload)) {
+      this.emit("response", payload);
+      if (typeof payload.echo === "string") {
+        const pending = this.pendingRequests.get(payload.echo);
+        if (pending) {
+          clearTimeout(pending.timer);
+          this.pendingRequests.delete(payload.echo);
+          pending.resolve(payload);
+        }
+      }
+      return;
+    }
+
+    if (isEventPacket(payload)) {
+      this.emit("event", payload);
+      if (payload.post_type === "message") {
+        this.emit("message", payload as OneBotMessageEvent);
+      } else if (payload.post_type === "notice") {
+        this.emit("notice", payload);
+      } else if (payload.post_type === "request") {
+        this.emit("request", payload);
+      } else if (payload.post_type === "meta_event") {
+        this.handleMetaEvent(payload);
+        this.emit("meta_event", payload);
+      }
+      return;
+    }
+
+    this.emit("error", createClientError("Received unsupported OneBot payload"));
+  }
+
+  protected rejectAllPending(error: OneBotClientError): void {
+    for (const [echo, pending] of this.pendingRequests.entries()) {
+      clearTimeout(pending.timer);
+      pending.reject(error);
+      this.pendingRequests.delete(echo);
+    }
+  }
+
+  protected transitionTo(next: OneBotClientState): void {
+    this.state = next;
+    if (next === "open") {
+      this.updateHealth({ state: "healthy", reason: undefined });
+      this.armHeartbeatWatchdog();
+    } else {
+      this.stopHeartbeatWatchdog();
+    }
+    if (next === "open" && this.outboundQueue.length) {
+      this.flushOutboundQueue();
+    } else if (next === "closing") {
+      this.rejectOutboundQueue(createClientError("Disconnected"));
+    }
+  }
+
+  // 心跳超时默认只标记为降级; 有长连接的传输覆盖此方法, 断开连接以触发重连。
+  protected handleHeartbeatTimeout(timeoutMs: number): void {
+    this.emit("error", createClientError(`Heartbeat timeout after ${timeoutMs}ms`));
+    this.updateHealth({ state: "degraded", reason: "heartbeat timeout" });
+  }
+
+  // heartbeat 元事件更新心跳间隔与 QQ 在线状态; lifecycle 元事件切换实现的启用/停用状态。
+  private handleMetaEvent(event: OneBotMetaEvent): void {
+    if (event.meta_event_type === "heartbeat") {
+      const interval = Number(event.interval);
+      if (Number.isFinite(interval) && interval > 0) {
+        this.heartbeatIntervalMs = interval;
+      }
+      const status = (event.status ?? {}) as Partial<OneBotStatus>;
+      const offline = status.online === false;
+      this.updateHealth({
+        state: offline ? "degraded" : "healthy",
+        reason: offline ? "QQ offline" : undefined,
+        online: status.online,
+        good: status.good,
+        heartbeatIntervalMs: this.heartbeatIntervalMs || undefined,
+        lastHeartbeatAt: Date.now(),
+      });
+      this.armHeartbeatWatchdog();
+      return;
+    }
+    if (event.meta_event_type !== "lifecycle") {
+      return;
+    }
+    if (event.sub_type === "disable") {
+      this.logger?.warn?.("[onebot] implementation reported lifecycle disable");
+      this.stopHeartbeatWatchdog();
+      this.updateHealth({ state: "disabled", reason: "lifecycle disable" });
+    } else if (event.sub_type === "enable" || event.sub_type === "connect") {
+      this.updateHealth({ state: "healthy", reason: undefined });
+      this.armHeartbeatWatchdog();
+    }
+  }
+
+  // 超时时长: 配置优先, 否则为心跳间隔的 DEFAULT_HEARTBEAT_MISSED_LIMIT 倍。
+  private armHeartbeatWatchdog(): void {
+    this.stopHeartbeatWatchdog();
+    const timeoutMs =
+      this.heartbeatTimeoutMs ?? this.heartbeatIntervalMs * DEFAULT_HEARTBEAT_MISSED_LIMIT;
+    if (timeoutMs <= 0 || this.state !== "open" || this.health.state === "disabled") {
+      return;
+    }
+    this.heartbeatTimer = setTimeout(() => {
+      this.heartbeatTimer = null;
+      this.handleHeartbeatTimeout(timeoutMs);
+    }, timeoutMs);
+  }
+
+  private stopHeartbeatWatchdog(): void {
+    if (!this.heartbeatTimer) {
+      return;
+    }
+    clearTimeout(this.heartbeatTimer);
+    this.heartbeatTimer = null;
+  }
+
+  // 只在健康状态或 QQ 在线状态变化时触发 health 事件, 避免每次心跳都通知。
+  private updateHealth(patch: Partial<OneBotHealthEvent>): void {
+    const previous = this.health;
+    this.health = { ...previous, ...patch };
+    if (previous.state !== this.health.state || previous.online !== this.health.online) {
+      this.emit("health", { ...this.health });
+    }
+  }
+
+  protected generateEcho(): string {
+    this.echoSeq += 1;
+    return `ob_${Date.now()}_${this.echoSeq}`;
+  }
+}
@@ -79,6 +79,151 @@ export interface OneBotApiResponse<TData = unknown> {
     [key: string]: unknown;
 }
 
+export type OneBotMessageSegment = { type: string; data: Record<string, unknown> };
+
+export type OneBotMessageInput = string | unknown[];
+
+// 合并转发自定义节点, 同时提供 v11 的 name/uin 与 NapCat 等实现的 nickname/user_id 字段。
+export interface OneBotForwardNode {
+    type: "node";
+    data: {
+        name?: string;
+        uin?: number | string;
+        nickname?: string;
+        user_id?: number | string;
+        content: OneBotMessageInput;
+    };
+}
+
+// 以下为 OneBot v11 标准动作(及常见扩展动作)的响应数据类型。
+export interface OneBotMessageIdData {
+    message_id: number | string;
+}
+
+export interface OneBotSender {
+    user_id?: number;
+    nickname?: string;
+    card?: string;
+    sex?: "male" | "female" | "unknown" | (string & {});
+    age?: number;
+    area?: string;
+    level?: string;
+    role?: "owner" | "admin" | "member" | (string & {});
+    title?: string;
+    [key: string]: unknown;
+}
+
+export interface OneBotMsgData {
+    time: number;
+    message_type: "private" | "group" | (string & {});
+    message_id: number | string;
+    real_id?: number | string;
+    sender: OneBotSender;
+    message: OneBotMessageInput;
+    group_id?: number;
+    user_id?: number;
+    raw_message?: string;
+    [key: string]: unknown;
+}
+
+export interface OneBotForwardSendData extends OneBotMessageIdData {
+    forward_id?: string;
+}
+
+export interface OneBotForwardMsgData {
+    // 标准实现返回 message, 部分实现(NapCat/LLOneBot)返回 messages。
+    message?: OneBotMessageSegment[] | OneBotMsgData[];
+    messages?: OneBotMsgData[];
+}
+
+export interface OneBotLoginInfo {
+    user_id: number;
+    nickname: string;
+}
+
+export interface OneBotStrangerInfo {
+    user_id: number;
+    nickname: string;
+    sex?: string;
+    age?: number;
+    [key: string]: unknown;
+}
+
+export interface OneBotFriendInfo {
+    user_id: number;
+    nickname: string;
+    remark?: string;
+}
+
+export interface OneBotGroupInfo {
+    group_id: number;
+    group_name: string;
+    member_count?: number;
+    max_member_count?: number;
+}
+
+export interface OneBotGroupMemberInfo {
+    group_id: number;
+    user_id: number;
+    nickname: string;
+    card?: string;
+    sex?: string;
+    age?: number;
+    area?: string;
+    join_time?: number;
+    last_sent_time?: number;
+    level?: string;
+    role: "owner" | "admin" | "member" | (string & {});
+    unfriendly?: boolean;
+    title?: string;
+    title_expire_time?: number;
+    card_changeable?: boolean;
+}
+
+export interface OneBotFileData {
+    file?: string;
+    url?: string;
+    base64?: string;
+    file_name?: string;
+    file_size?: number | string;
+}
+
+export interface OneBotCanSendData {
+    yes: boolean;
+}
+
+export interface OneBotStatus {
+    online: boolean | null;
+    good: boolean;
+    [key: string]: unknown;
+}
+
+export interface OneBotVersionInfo {
+    app_name: string;
+    app_version: string;
+    protocol_version: string;
+    [key: string]: unknown;
+}
+
+export interface OneBotGroupMsgHistoryData {
+    messages?: OneBotMessageEvent[];
+}
+
+// 快速操作字段, 随事件类型不同取其中一部分, 例如消息事件的 reply/at_sender, 请求事件的 approve/remark。
+export interface OneBotQuickOperation {
+    reply?: string | unknown[];
+    auto_escape?: boolean;
+    at_sender?: boolean;
+    delete?: boolean;
+    kick?: boolean;
+    ban?: boolean;
+    ban_duration?: number;
+    approve?: boolean;
+    remark?: string;
+    reason?: string;
+    [key: string]: unknown;
+}
+
 export interface OneBotClientError extends Error {
     code?: number | string;
     cause?: unknown;
@@ -91,23 +236,103 @@ export interface OneBotLogger {
     error?: (...args: unknown[]) => void;
 }
 
-export interface OneBotWsClientOptions {
+// 出站发送限速与重试配置, 速率单位为条/分钟, 0 表示不限速。
+export interface OneBotSendSchedulerOptions {
+    accountRatePerMinute?: number;
+    accountBurst?: number;
+    targetRatePerMinute?: number;
+    targetBurst?: number;
+    // 同一目标相邻两条消息的最小间隔, 实际间隔再叠加 [0, jitterMs) 的随机抖动。
+    spacingMs?: number;
+    jitterMs?: number;
+    maxRetries?: number;
+    retryDelayMs?: number;
+}
+
+// 断线期间的出站动作缓冲, 连接恢复(open)后按顺序发出; 超过 maxAgeMs 仍未发出的动作以错误结束。
+export interface OneBotOutboundQueueOptions {
+    maxSize?: number;
+    maxAgeMs?: number;
+}
+
+export interface OneBotTransportOptions {
+    accessToken?: string;
+    requestTimeoutMs?: number;
+    logger?: OneBotLogger;
+    // 配置后发送类动作经由调度器排队限速, 否则立即发送。
+    sendScheduler?: OneBotSendSchedulerOptions;
+    // 配置后, 在连接中/重连中发起的动作先进入缓冲队列, 否则直接抛出未连接错误。
+    outboundQueue?: OneBotOutboundQueueOptions;
+    // 心跳超时时长; 不配置时按心跳元事件上报的 interval 推算, 两者都没有则不监控。
+    heartbeatTimeoutMs?: number;
+}
+
+export interface OneBotWsEndpoint {
     url: string;
+    // 未设置时使用 options.accessToken
     accessToken?: string;
+}
+
+export interface OneBotWsClientOptions extends OneBotTransportOptions {
+    url: string;
     reconnect?: boolean;
+    // 0 表示不限次数, 退避时长仍以 reconnectMaxDelayMs 为上限
     reconnectMaxAttempts?: number;
     reconnectBaseDelayMs?: number;
     reconnectMaxDelayMs?: number;
-    requestTimeoutMs?: number;
-    heartbeatTimeoutMs?: number;
+    // 连续鉴权失败达到 authFailureThreshold 次后, 每次重试间隔 authFailureCooldownMs
+    authFailureThreshold?: number;
+    authFailureCooldownMs?: number;
+    // 故障转移端点, 连接失败时按顺序轮换, 第一个为主端点; 配置后取代 url
+    endpoints?: OneBotWsEndpoint[];
+    // 连接在备用端点时, 每隔该时长探测一次主端点, 可用则切回; 0 为不主动切回
+    primaryRecheckMs?: number;
     headers?: Record<string, string>;
-    logger?: OneBotLogger;
+}
+
+export interface OneBotWsServerOptions extends OneBotTransportOptions {
+    host?: string;
+    port: number;
+    path?: string;
+    // 期望接入的机器人QQ号, 与握手头 X-Self-ID 不一致时拒绝连接。
+    selfId?: string;
+}
+
+export interface OneBotHttpClientOptions extends OneBotTransportOptions {
+    // OneBot HTTP API 地址, 动作以 `POST {apiUrl}/{action}` 发送。
+    apiUrl: string;
+    // 本地接收 HTTP POST 上报的监听地址, postPort 为空或 0 时不监听(仅发送)。
+    postHost?: string;
+    postPort?: number;
+    postPath?: string;
+    // 上报签名密钥, 配置后校验 `X-Signature: sha1=<hex>`。
+    secret?: string;
+    postBodyMaxBytes?: number;
+    quickOperationTimeoutMs?: number;
+    // 在上报的 HTTP 响应中返回快速操作, 返回空值则以 204 响应。
+    resolveQuickOperation?: (
+        event: OneBotEvent,
+    ) => OneBotQuickOperation | null | undefined | Promise<OneBotQuickOperation | null | undefined>;
 }
 
 export interface OneBotReconnectEvent {
     attempt: number;
     delayMs: number;
     reason?: string;
+    // 因连续鉴权失败处于熔断状态
+    circuitOpen?: boolean;
+}
+
+export interface OneBotFailoverEvent {
+    from: number;
+    to: number;
+    url: string;
+    reason: string;
+}
+
+export interface OneBotReconnectExhaustedEvent {
+    attempts: number;
+    reason: string;
 }
 
 export interface OneBotCloseEvent {
@@ -121,6 +346,19 @@ export interface OneBotRawEvent {
     data: unknown;
 }
 
+// healthy: 正常; degraded: OneBot 实现在线但 QQ 离线(status.online=false)或心跳超时;
+// disabled: 实现通过 lifecycle 元事件上报已停用。
+export type OneBotHealthState = "healthy" | "degraded" | "disabled";
+
+export interface OneBotHealthEvent {
+    state: OneBotHealthState;
+    reason?: string;
+    online?: boolean | null;
+    good?: boolean;
+    heartbeatIntervalMs?: number;
+    lastHeartbeatAt?: number;
+}
+
 export interface OneBotTimeoutEvent {
     action: string;
     echo: string;
@@ -131,6 +369,8 @@ export type OneBotClientEventMap = {
     open: () => void;
     close: (event: OneBotCloseEvent) => void;
     reconnecting: (event: OneBotReconnectEvent) => void;
+    reconnect_exhausted: (event: OneBotReconnectExhaustedEvent) => void;
+    failover: (event: OneBotFailoverEvent) => void;
     error: (error: OneBotClientError) => void;
     raw: (event: OneBotRawEvent) => void;
     event: (event: OneBotEvent) => void;
@@ -140,7 +380,16 @@ export type OneBotClientEventMap = {
     meta_event: (event: OneBotMetaEvent) => void;
     response: (response: OneBotApiResponse<unknown>) => void;
     timeout: (event: OneBotTimeoutEvent) => void;
+    health: (event: OneBotHealthEvent) => void;
 }; export type Listener<K extends keyof OneBotClientEventMap> = OneBotClientEventMap[K];
+export type QueuedAction = {
+    payload: OneBotActionRequest<unknown>;
+    timeoutMs: number;
+    enqueuedAt: number;
+    resolve: (value: OneBotApiResponse<unknown>) => void;
+    reject: (reason?: unknown) => void;
+    timer: NodeJS.Timeout;
+};
 export type PendingRequest = {
     action: string;
     timeoutMs: number;
@@ -0,0 +1,25 @@
+import assert from "node:assert/strict";
+import { createHmac } from "node:crypto";
+import { test } from "node:test";
+import { safeEqual, verifySignature } from "./util";
+
+const body = Buffer.from('{"post_type":"message"}');
+const signature = `sha1=${createHmac("sha1", "secret").update(body).digest("hex")}`;
+
+test("签名匹配时校验通过, 大小写不敏感", () => {
+  assert.equal(verifySignature(body, "secret", signature), true);
+  assert.equal(verifySignature(body, "secret", signature.toUpperCase().replace("SHA1=", "sha1=")), true);
+});
+
+test("密钥、内容不同或格式错误时校验失败", () => {
+  assert.equal(verifySignature(body, "other", signature), false);
+  assert.equal(verifySignature(Buffer.from("{}"), "secret", signature), false);
+  assert.equal(verifySignature(body, "secret", signature.slice("sha1=".length)), false);
+  assert.equal(verifySignature(body, "secret", "sha1=abc"), false);
+});
+
+test("safeEqual 比较字符串内容", () => {
+  assert.equal(safeEqual("token", "token"), true);
+  assert.equal(safeEqual("token", "token2"), false);
+  assert.equal(safeEqual("", "token"), false);
+});
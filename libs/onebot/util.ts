@@ -1,3 +1,4 @@
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
 import type { OneBotClientError, OneBotEvent, OneBotApiResponse } from "./types";
 
 
@@ -6,6 +7,57 @@ export function createClientError(message: string, cause?: unknown): OneBotClien
     err.cause = cause;
     return err;
 }
+// OneBot v11 约定的 retcode 含义: 1xx 为实现自定义的执行错误, 14xx 对应 HTTP API 的状态码。
+const RETCODE_MESSAGES: Record<number, string> = {
+    100: "bad request",
+    102: "invalid data",
+    103: "execution failed",
+    104: "credentials invalid",
+    201: "worker not ready",
+    1400: "bad request",
+    1401: "unauthorized",
+    1403: "forbidden",
+    1404: "unsupported action",
+};
+export function describeRetcode(retcode: number): string {
+    return RETCODE_MESSAGES[retcode] ?? "unknown error";
+}
+export function createActionError(action: string, response: OneBotApiResponse<unknown>): OneBotClientError {
+    const detail = response.wording || (typeof response.msg === "string" ? response.msg : "") || describeRetcode(response.retcode);
+    const err = createClientError(`OneBot action ${action} failed (retcode=${response.retcode}): ${detail}`);
+    err.code = response.retcode;
+    return err;
+}
+// 统一判定动作结果: status 为 ok(或异步动作的 async)视为成功并返回 data, 否则按 retcode 抛错。
+export function unwrapActionResponse<TData>(action: string, response: OneBotApiResponse<TData>): TData {
+    const accepted = response.status === "ok" || response.status === "async";
+    if (!accepted || (response.retcode !== 0 && response.retcode !== 1)) {
+        throw createActionError(action, response);
+    }
+    return response.data as TData;
+}
+// 不可重试的语义错误, 如不在群内、非好友、被禁言等, 重试只会加重风控。
+const PERMANENT_WORDING_RE = /not in group|not.*friend|muted|blocked|不在.*群|不是.*好友|非好友|禁言|不存在/i;
+// 可重试: 动作超时、实现内部执行失败(103, 常见于风控或临时网络问题)、工作线程未就绪(201)、HTTP 5xx;
+// 参数错误、鉴权失败、动作不存在等直接失败。
+export function isRetryableActionError(error: unknown): boolean {
+    const err = error as OneBotClientError | undefined;
+    if (!err) {
+        return false;
+    }
+    if (err.code === "ETIMEDOUT") {
+        return true;
+    }
+    if (typeof err.code !== "number" || PERMANENT_WORDING_RE.test(err.message)) {
+        return false;
+    }
+    return err.code === 103 || err.code === 201 || (err.code >= 500 && err.code < 600);
+}
+export function createTimeoutError(action: string, timeoutMs: number, cause?: unknown): OneBotClientError {
+    const err = createClientError(`OneBot action timeout: ${action} (${timeoutMs}ms)`, cause);
+    err.code = "ETIMEDOUT";
+    return err;
+}
 export function toText(data: unknown): string {
     if (typeof data === "string") {
         return data;
@@ -44,3 +96,55 @@ export function clampMs(value: number, fallback: number): number {
     }
     return Math.floor(value);
 }
+// 从握手请求中提取访问令牌, 兼容 `Authorization: Bearer/Token <token>` 请求头和 `access_token` 查询参数。
+export function extractAccessToken(headers: Record<string, string | string[] | undefined>, url?: string): string {
+    const authorization = headers.authorization;
+    const authValue = Array.isArray(authorization) ? authorization[0] : authorization;
+    if (authValue) {
+        const match = authValue.trim().match(/^(?:Bearer|Token)\s+(.+)$/i);
+        return (match ? match[1] : authValue).trim();
+    }
+    if (url) {
+        try {
+            return new URL(url, "http://localhost").searchParams.get("access_token") ?? "";
+        } catch {
+            return "";
+        }
+    }
+    return "";
+}
+// 日志中展示 URL 时隐藏 `access_token` 查询参数与 userinfo 中的密码。
+export function redactUrl(url: string): string {
+    try {
+        const parsed = new URL(url);
+        if (parsed.password) {
+            parsed.password = "***";
+        }
+        if (parsed.searchParams.has("access_token")) {
+            parsed.searchParams.set("access_token", "***");
+        }
+        return parsed.toString();
+    } catch {
+        return url.replace(/(access_token=)[^&#]*/gi, "$1***");
+    }
+}
+export function readHeader(headers: Record<string, string | string[] | undefined>, name: string): string {
+    const value = headers[name.toLowerCase()];
+    return String((Array.isArray(value) ? value[0] : value) ?? "").trim();
+}
+// 校验 OneBot HTTP POST 上报的 `X-Signature: sha1=<hex>` 签名(HMAC-SHA1, 密钥为配置的 secret)。
+export function verifySignature(body: Buffer, secret: string, signature: string): boolean {
+    const match = signature.trim().match(/^sha1=([0-9a-f]{40})$/i);
+    if (!match) {
+        return false;
+    }
+    const expected = createHmac("sha1", secret).update(body).digest();
+    const actual = Buffer.from(match[1], "hex");
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+// 常量时间比较两个字符串, 先取摘要使长度不同也不会提前返回, 用于校验 access token。
+export function safeEqual(actual: string, expected: string): boolean {
+    const a = createHash("sha256").update(actual).digest();
+    const b = createHash("sha256").update(expected).digest();
+    return timingSafeEqual(a, b);
+}
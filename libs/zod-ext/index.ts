@@ -36,3 +36,15 @@ export const looseNumber = (defaultValue: number) =>
     return Number.isFinite(parsed) ? parsed : defaultValue;
   }, z.number());
 
+
+export const looseEnum = <const T extends readonly [string, ...string[]]>(
+  values: T,
+  defaultValue: T[number],
+) =>
+  z.preprocess((value) => {
+    if (value == null || value === "") {
+      return defaultValue;
+    }
+    const text = String(value).trim().toLowerCase();
+    return (values as readonly string[]).includes(text) ? text : defaultValue;
+  }, z.enum(values));
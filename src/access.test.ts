@@ -0,0 +1,31 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createQQUserMatcher, normalizeQQUserId } from "./access";
+
+test("精确号码匹配并忽略前缀", () => {
+  const matches = createQQUserMatcher(["10001", "qq:10002", "pinguclaw:user:10003"]);
+  assert.equal(matches(10001), true);
+  assert.equal(matches("10002"), true);
+  assert.equal(matches(10003), true);
+  assert.equal(matches(10004), false);
+});
+
+test("号段包含两端, 顺序颠倒也可识别", () => {
+  const matches = createQQUserMatcher(["20000-20010", "30010-30000"]);
+  assert.equal(matches(20000), true);
+  assert.equal(matches(20010), true);
+  assert.equal(matches(20011), false);
+  assert.equal(matches(30005), true);
+  assert.equal(matches("abc"), false);
+});
+
+test("* 匹配所有人, 空名单不匹配任何人", () => {
+  assert.equal(createQQUserMatcher(["*"])(123), true);
+  assert.equal(createQQUserMatcher([])(123), false);
+  assert.equal(createQQUserMatcher([" ", ""])(123), false);
+});
+
+test("normalizeQQUserId 去除常见前缀", () => {
+  assert.equal(normalizeQQUserId(" QQ:private:10001 "), "10001");
+  assert.equal(normalizeQQUserId("p:10001"), "10001");
+});
@@ -0,0 +1,223 @@
+import type OneBotTransport from "../libs/onebot/transport";
+import type { OneBotMessageEvent } from "../libs/onebot/types";
+import type { ResolvedQQAccount } from "./accounts";
+import { splitIdList } from "./config";
+import { CHANNEL_ID } from "./constants";
+import type { QQGroupSettings } from "./groups";
+import { getQQRuntime } from "./runtime";
+import { dispatchQQMessage } from "./send";
+
+export type QQDmAccess = "allow" | "pairing" | "deny";
+
+export type QQGroupRole = "owner" | "admin" | "member";
+
+const MEMBER_CACHE_TTL_MS = 10 * 60 * 1000;
+const MEMBER_CACHE_MAX = 5000;
+
+/**
+ * 统一 allowlist / 配对条目格式: 去掉 `qq:`、`pinguclaw:`、`qq:user:`、`private:` 等前缀, 只保留 QQ 号。
+ */
+export function normalizeQQUserId(entry: string): string {
+  return entry
+    .trim()
+    .replace(new RegExp(`^(?:qq|${CHANNEL_ID}):`, "i"), "")
+    .replace(/^(?:user|private|p):/i, "")
+    .trim();
+}
+
+/**
+ * 构造 QQ 号匹配器, 条目支持精确号码、`*` 通配以及 `10000-19999` 形式的号段。
+ */
+export function createQQUserMatcher(entries: string[]): (userId: number | string) => boolean {
+  const exact = new Set<string>();
+  const ranges: Array<[number, number]> = [];
+  let wildcard = false;
+  for (const raw of entries) {
+    const entry = normalizeQQUserId(raw);
+    const range = entry.match(/^(\d+)-(\d+)$/);
+    if (entry === "*") {
+      wildcard = true;
+    } else if (range) {
+      const [from, to] = [Number(range[1]), Number(range[2])];
+      ranges.push([Math.min(from, to), Math.max(from, to)]);
+    } else if (entry) {
+      exact.add(entry);
+    }
+  }
+  return (userId) => {
+    const id = String(userId);
+    if (wildcard || exact.has(id)) {
+      return true;
+    }
+    const value = Number(id);
+    return Number.isFinite(value) && ranges.some(([from, to]) => value >= from && value <= to);
+  };
+}
+
+export function normalizeGroupRole(role: unknown): QQGroupRole {
+  return role === "owner" || role === "admin" ? role : "member";
+}
+
+/**
+ * 群成员信息缓存(角色与群名片), 用于角色门控与把 @QQ号 渲染为昵称。
+ *
+ * 角色优先采用消息事件自带的 `sender.role`, 缺失时调用 `get_group_member_info` 查询;
+ * 查询失败不缓存, 下次使用时重试。
+ */
+export function createQQMemberCache(client: OneBotTransport, ttlMs = MEMBER_CACHE_TTL_MS) {
+  const cache = new Map<string, { role: QQGroupRole; name: string; expiresAt: number }>();
+
+  const remember = (key: string, role: QQGroupRole, name: string) => {
+    if (cache.size >= MEMBER_CACHE_MAX) {
+      const now = Date.now();
+      for (const [entryKey, entry] of cache) {
+        if (entry.expiresAt <= now) {
+          cache.delete(entryKey);
+        }
+      }
+      if (cache.size >= MEMBER_CACHE_MAX) {
+        cache.delete(cache.keys().next().value!);
+      }
+    }
+    const entry = { role, name, expiresAt: Date.now() + ttlMs };
+    cache.set(key, entry);
+    return entry;
+  };
+
+  const lookup = async (groupId: number | string, userId: number | string) => {
+    const key = `${groupId}:${userId}`;
+    const cached = cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached;
+    }
+    try {
+      const info = await client.getGroupMemberInfo(Number(groupId), Number(userId));
+      return remember(key, normalizeGroupRole(info?.role), String(info?.card || info?.nickname || ""));
+    } catch (error) {
+      console.warn(`[${CHANNEL_ID}] get_group_member_info failed group=${groupId} user=${userId}`, error);
+      return null;
+    }
+  };
+
+  return {
+    async resolveRole(event: QQGroupSenderEvent): Promise<QQGroupRole> {
+      const sender = (event.sender ?? {}) as { role?: string; card?: string; nickname?: string };
+      if (sender.role) {
+        const role = normalizeGroupRole(sender.role);
+        remember(`${event.group_id}:${event.user_id}`, role, String(sender.card || sender.nickname || ""));
+        return role;
+      }
+      return (await lookup(event.group_id!, event.user_id!))?.role ?? "member";
+    },
+    async resolveName(groupId: number | string, userId: number | string): Promise<string | undefined> {
+      return (await lookup(groupId, userId))?.name || undefined;
+    },
+    // 管理员变动(group_admin 通知)或成员退群时让缓存失效
+    invalidate(groupId: number | string, userId: number | string): void {
+      cache.delete(`${groupId}:${userId}`);
+    },
+  };
+}
+
+export type QQMemberCache = ReturnType<typeof createQQMemberCache>;
+
+// 消息事件与通知事件(戳一戳、入群)共用的发送者字段, 通知事件不带 sender
+export type QQGroupSenderEvent = Pick<OneBotMessageEvent, "group_id" | "user_id" | "sender">;
+
+/**
+ * 群级发送者门控: `allowedUsers` 与 `allowedRoles` 均需满足, 未配置的一项不做限制。
+ * 只有配置了角色限制时才会查询成员角色。
+ */
+export async function isGroupSenderPermitted(params: {
+  group: QQGroupSettings;
+  event: QQGroupSenderEvent;
+  members: QQMemberCache;
+}): Promise<boolean> {
+  const { group, event } = params;
+  if (group.isAllowedUser && !group.isAllowedUser(String(event.user_id))) {
+    return false;
+  }
+  if (!group.allowedRoles.size) {
+    return true;
+  }
+  return group.allowedRoles.has(await params.members.resolveRole(event));
+}
+
+// 配置中的 allowedUsers 与 OpenClaw 配对审批后写入的 allowFrom 存储合并生效。
+async function readAllowedUsers(account: ResolvedQQAccount): Promise<Set<string>> {
+  const allowed = new Set(splitIdList(account.config.allowedUsers).map(normalizeQQUserId));
+  try {
+    const stored = await getQQRuntime().channel.pairing.readAllowFromStore(
+      CHANNEL_ID,
+      undefined,
+      account.accountId,
+    );
+    for (const entry of stored) {
+      allowed.add(normalizeQQUserId(String(entry)));
+    }
+  } catch (error) {
+    console.warn(`[${CHANNEL_ID}] read pairing allowFrom store failed`, error);
+  }
+  return allowed;
+}
+
+/**
+ * 按账号的 `dmPolicy` 判定私聊发送者能否进入 agent 会话。
+ *
+ * - `open`: 任何人
+ * - `allowlist`: 仅 allowedUsers / 已配对用户, 其余忽略
+ * - `pairing`: 同 allowlist, 但未授权用户会收到配对码, 由管理员通过 OpenClaw 审批
+ * - `disabled`: 不处理任何私聊
+ */
+export async function resolveDmAccess(params: {
+  account: ResolvedQQAccount;
+  senderId: string;
+}): Promise<QQDmAccess> {
+  const policy = params.account.config.dmPolicy;
+  if (policy === "disabled") {
+    return "deny";
+  }
+  if (policy === "open") {
+    return "allow";
+  }
+  const allowed = await readAllowedUsers(params.account);
+  if (allowed.has("*") || allowed.has(params.senderId)) {
+    return "allow";
+  }
+  return policy === "pairing" ? "pairing" : "deny";
+}
+
+/**
+ * 为未授权的私聊发送者创建配对请求; 仅在首次创建时回复配对码, 避免重复消息刷屏。
+ */
+export async function replyWithPairingCode(params: {
+  client: OneBotTransport;
+  account: ResolvedQQAccount;
+  senderId: string;
+  senderName?: string;
+  logPrefix?: string;
+}): Promise<void> {
+  const runtime = getQQRuntime();
+  const { code, created } = await runtime.channel.pairing.upsertPairingRequest({
+    channel: CHANNEL_ID,
+    id: params.senderId,
+    accountId: params.account.accountId,
+    meta: { name: params.senderName },
+  });
+  console.log(
+    `${params.logPrefix ?? "[qq]"} pairing request user=${params.senderId} created=${created}`,
+  );
+  if (!created) {
+    return;
+  }
+  await dispatchQQMessage({
+    client: params.client,
+    to: `private:${params.senderId}`,
+    text: runtime.channel.pairing.buildPairingReply({
+      channel: CHANNEL_ID,
+      idLine: `Your QQ number: ${params.senderId}`,
+      code,
+    }),
+    config: params.account.config,
+  });
+}
@@ -1,22 +1,48 @@
 import type { ChannelAccountSnapshot, OpenClawConfig } from "openclaw/plugin-sdk";
 import { DEFAULT_ACCOUNT_ID, normalizeAccountId } from "openclaw/plugin-sdk";
-import type OneBotWsClient from "../libs/onebot/client";
+import type OneBotTransport from "../libs/onebot/transport";
 import { QQConfigSchema, type QQConfig } from "./config";
 import { CHANNEL_ID } from "./constants";
+import { resolveQQAccessToken } from "./secrets";
 
 export type ResolvedQQAccount = ChannelAccountSnapshot & {
   config: QQConfig;
-  client?: OneBotWsClient;
+  client?: OneBotTransport;
+  // 按 accessTokenFile > accessTokenEnv > accessToken 解析出的实际令牌; config.accessToken 保持原始配置,
+  // 避免外部来源的令牌经由配置向导写回配置文件
+  accessToken: string;
+  // wsEndpoints 按同样优先级解析出令牌后的端点列表; 端点令牌为空时沿用账号级令牌
+  wsEndpoints: Array<{ url: string; accessToken: string }>;
+  // accessTokenFile / accessTokenEnv(含端点级)无法解析时的原因, 此时账号视为未配置
+  tokenError?: string;
 };
 
 type QQChannelConfig = {
   enabled?: boolean;
+  connectionMode?: string;
   wsUrl?: string;
+  wsEndpoints?: Array<
+    string | { url?: string; accessToken?: string; accessTokenFile?: string; accessTokenEnv?: string }
+  >;
   accessToken?: string;
+  accessTokenFile?: string;
+  accessTokenEnv?: string;
+  reverseHost?: string;
+  reversePort?: number;
+  reversePath?: string;
+  selfId?: string;
+  httpApiUrl?: string;
+  httpPostHost?: string;
+  httpPostPort?: number;
+  httpPostPath?: string;
+  httpSecret?: string;
   name?: string;
   requireMention?: boolean;
   keywordTriggers?: string;
   allowedGroups?: string;
+  groups?: Record<string, Record<string, unknown> | undefined>;
+  dmPolicy?: string;
+  allowedUsers?: string;
   blockedUsers?: string;
   historyLimit?: number;
   accounts?: Record<string, Record<string, unknown> | undefined>;
@@ -26,6 +52,16 @@ function readQQChannel(cfg: OpenClawConfig): QQChannelConfig {
   return (cfg.channels as Record<string, unknown> | undefined)?.[CHANNEL_ID] as QQChannelConfig;
 }
 
+export function isQQAccountConfigured(config: QQConfig): boolean {
+  if (config.connectionMode === "reverse") {
+    return config.reversePort > 0;
+  }
+  if (config.connectionMode === "http") {
+    return Boolean(config.httpApiUrl?.trim());
+  }
+  return config.wsEndpoints.some((endpoint) => endpoint.url) || Boolean(config.wsUrl?.trim());
+}
+
 export function listQQAccountIds(cfg: OpenClawConfig): string[] {
   const qq = readQQChannel(cfg);
   const ids = new Set<string>([DEFAULT_ACCOUNT_ID]);
@@ -53,6 +89,15 @@ export function resolveQQAccount(params: {
     ...qq,
     ...accountCfg,
   });
+  const token = resolveQQAccessToken(parsed);
+  let tokenError = token.error;
+  const wsEndpoints = parsed.wsEndpoints.map((endpoint, index) => {
+    const endpointToken = resolveQQAccessToken(endpoint);
+    if (endpointToken.error && parsed.connectionMode === "forward") {
+      tokenError ??= `wsEndpoints[${index}]: ${endpointToken.error}`;
+    }
+    return { url: endpoint.url, accessToken: endpointToken.value };
+  });
   const enabled =
     accountCfg && typeof accountCfg.enabled === "boolean"
       ? accountCfg.enabled
@@ -66,7 +111,40 @@ export function resolveQQAccount(params: {
     accountId,
     name,
     enabled,
-    configured: Boolean(parsed.wsUrl?.trim()),
+    configured: !tokenError && isQQAccountConfigured(parsed),
+    accessToken: token.value,
+    wsEndpoints,
+    tokenSource: token.source,
+    tokenError,
     config: parsed,
   };
 }
+
+/**
+ * 将配置补丁写入默认账号(频道顶层)或指定账号的配置段, 返回新的配置对象。
+ */
+export function patchQQAccountConfig(
+  cfg: OpenClawConfig,
+  accountId: string,
+  patch: Record<string, unknown>,
+): OpenClawConfig {
+  const qq = readQQChannel(cfg) ?? {};
+  const normalized = normalizeAccountId(accountId);
+  const section =
+    normalized === DEFAULT_ACCOUNT_ID
+      ? { ...qq, ...patch }
+      : {
+          ...qq,
+          accounts: {
+            ...qq.accounts,
+            [normalized]: { ...qq.accounts?.[normalized], ...patch },
+          },
+        };
+  return {
+    ...cfg,
+    channels: {
+      ...cfg.channels,
+      [CHANNEL_ID]: section,
+    },
+  } as OpenClawConfig;
+}
@@ -3,30 +3,91 @@ import {
   buildChannelConfigSchema,
   DEFAULT_ACCOUNT_ID,
   deleteAccountFromConfigSection,
+  formatPairingApproveHint,
   migrateBaseNameToDefaultAccount,
   normalizeAccountId,
+  PAIRING_APPROVED_MESSAGE,
   setAccountEnabledInConfigSection,
   type ChannelPlugin,
   type OpenClawConfig,
 } from "openclaw/plugin-sdk";
+import { createHash } from "node:crypto";
 import OneBotWsClient from "../libs/onebot/client";
+import OneBotWsServer from "../libs/onebot/server";
+import OneBotHttpClient from "../libs/onebot/http";
+import type OneBotTransport from "../libs/onebot/transport";
+import type {
+  OneBotEvent,
+  OneBotOutboundQueueOptions,
+  OneBotQuickOperation,
+  OneBotSendSchedulerOptions,
+} from "../libs/onebot/types";
+import { redactUrl } from "../libs/onebot/util";
 import {
   listQQAccountIds,
   resolveDefaultQQAccountId,
   resolveQQAccount,
   type ResolvedQQAccount,
 } from "./accounts";
-import { QQConfigSchema } from "./config";
+import { QQConfigSchema, splitIdList } from "./config";
 import { CHANNEL_ID } from "./constants";
 import { attachQQMessageHandler } from "./monitor";
+import { createQQRequestHandler } from "./requests";
+import { normalizeQQUserId } from "./access";
+import { qqOnboardingAdapter } from "./onboarding";
 import { dispatchQQMessage } from "./send";
+import { createQQAccountProbe, probeQQAccount, type QQProbe } from "./probe";
+import { redactSecret } from "./secrets";
 
-const clients = new Map<string, OneBotWsClient>();
+const clients = new Map<string, OneBotTransport>();
+const clientFingerprints = new WeakMap<OneBotTransport, string>();
+const probes = new Map<string, ReturnType<typeof createQQAccountProbe>>();
 const detachInboundHandlers = new Map<string, () => void>();
 const detachLifecycleHandlers = new Map<string, () => void>();
+// HTTP 上报的快速操作由 startAccount 挂载的请求处理器提供, 客户端创建时处理器尚不存在, 按账号间接查找
+const quickOperationResolvers = new Map<string, (event: OneBotEvent) => OneBotQuickOperation | null>();
 
+// 连接信息日志: 密钥只显示是否已设置, URL 隐藏查询参数中的 access_token。
 function formatConnInfo(account: ResolvedQQAccount): string {
-  return `wsUrl="${account.config.wsUrl}" accessToken="${account.config.accessToken || ""}"`;
+  const token = `accessToken="${redactSecret(account.accessToken)}" tokenSource="${account.tokenSource ?? "none"}"`;
+  if (account.config.connectionMode === "reverse") {
+    return `mode="reverse" listen="${account.config.reverseHost}:${account.config.reversePort}${account.config.reversePath}" selfId="${account.config.selfId}" ${token}`;
+  }
+  if (account.config.connectionMode === "http") {
+    return `mode="http" apiUrl="${redactUrl(account.config.httpApiUrl)}" listen="${account.config.httpPostHost}:${account.config.httpPostPort}${account.config.httpPostPath}" ${token} secret="${redactSecret(account.config.httpSecret)}"`;
+  }
+  if (account.wsEndpoints.length) {
+    const endpoints = account.wsEndpoints.map(
+      (endpoint) =>
+        `${redactUrl(endpoint.url)} accessToken="${redactSecret(endpoint.accessToken || account.accessToken)}"`,
+    );
+    return `endpoints=[${endpoints.join(", ")}] tokenSource="${account.tokenSource ?? "none"}"`;
+  }
+  return `wsUrl="${redactUrl(account.config.wsUrl)}" ${token}`;
+}
+
+// 影响连接建立的配置摘要; 与运行中客户端不一致时(如令牌文件内容变化)需重建客户端。
+function connectionFingerprint(account: ResolvedQQAccount): string {
+  const { config } = account;
+  return createHash("sha256")
+    .update(
+      JSON.stringify([
+        config.connectionMode,
+        config.wsUrl,
+        account.wsEndpoints,
+        account.accessToken,
+        config.reverseHost,
+        config.reversePort,
+        config.reversePath,
+        config.selfId,
+        config.httpApiUrl,
+        config.httpPostHost,
+        config.httpPostPort,
+        config.httpPostPath,
+        config.httpSecret,
+      ]),
+    )
+    .digest("hex");
 }
 
 function logInfo(message: string, extra?: unknown): void {
@@ -45,34 +106,120 @@ function logWarn(message: string, extra?: unknown): void {
   console.warn(`[${CHANNEL_ID}] ${message}`, extra);
 }
 
-function createClient(account: ResolvedQQAccount): OneBotWsClient {
+const clientLogger = {
+  info: (...args: unknown[]) => console.log(`[${CHANNEL_ID}]`, ...args),
+  warn: (...args: unknown[]) => console.warn(`[${CHANNEL_ID}]`, ...args),
+  error: (...args: unknown[]) => console.error(`[${CHANNEL_ID}]`, ...args),
+};
+
+function resolveSendScheduler(account: ResolvedQQAccount): OneBotSendSchedulerOptions | undefined {
+  const config = account.config;
+  if (!config.sendRateLimit) {
+    return undefined;
+  }
+  return {
+    accountRatePerMinute: config.sendRatePerMinute,
+    accountBurst: config.sendBurst,
+    targetRatePerMinute: config.targetRatePerMinute,
+    targetBurst: config.targetBurst,
+    spacingMs: config.sendSpacingMs,
+    jitterMs: config.sendJitterMs,
+    maxRetries: config.sendMaxRetries,
+    retryDelayMs: config.sendRetryDelayMs,
+  };
+}
+
+function resolveOutboundQueue(account: ResolvedQQAccount): OneBotOutboundQueueOptions | undefined {
+  if (account.config.outboundQueueSize <= 0) {
+    return undefined;
+  }
+  return {
+    maxSize: account.config.outboundQueueSize,
+    maxAgeMs: account.config.outboundQueueMaxAgeMs,
+  };
+}
+
+function createClient(account: ResolvedQQAccount, options: { sendOnly?: boolean } = {}): OneBotTransport {
   logInfo(
     `creating websocket client for account="${account.accountId}" ${formatConnInfo(account)}`,
   );
+  const client = buildClient(account, options);
+  clientFingerprints.set(client, connectionFingerprint(account));
+  return client;
+}
+
+// 缓存的客户端是否仍按当前配置建立; 令牌文件/环境变量变化后旧客户端不可再复用。
+function isClientCurrent(client: OneBotTransport, account: ResolvedQQAccount): boolean {
+  return clientFingerprints.get(client) === connectionFingerprint(account);
+}
+
+// sendOnly: 临时发送用的客户端, HTTP 模式下不启动上报监听, 避免与网关抢占端口。
+function buildClient(account: ResolvedQQAccount, options: { sendOnly?: boolean }): OneBotTransport {
+  if (account.config.connectionMode === "reverse") {
+    return new OneBotWsServer({
+      host: account.config.reverseHost,
+      port: account.config.reversePort,
+      path: account.config.reversePath,
+      selfId: account.config.selfId || undefined,
+      accessToken: account.accessToken || undefined,
+      logger: clientLogger,
+      sendScheduler: resolveSendScheduler(account),
+      outboundQueue: resolveOutboundQueue(account),
+      heartbeatTimeoutMs: account.config.heartbeatTimeoutMs || undefined,
+    });
+  }
+  if (account.config.connectionMode === "http") {
+    return new OneBotHttpClient({
+      apiUrl: account.config.httpApiUrl,
+      postHost: account.config.httpPostHost,
+      postPort: options.sendOnly ? 0 : account.config.httpPostPort,
+      postPath: account.config.httpPostPath,
+      secret: account.config.httpSecret || undefined,
+      accessToken: account.accessToken || undefined,
+      resolveQuickOperation: (event) => quickOperationResolvers.get(account.accountId)?.(event) ?? null,
+      logger: clientLogger,
+      sendScheduler: resolveSendScheduler(account),
+      outboundQueue: resolveOutboundQueue(account),
+      heartbeatTimeoutMs: account.config.heartbeatTimeoutMs || undefined,
+    });
+  }
   return new OneBotWsClient({
     url: account.config.wsUrl,
-    accessToken: account.config.accessToken || undefined,
-    logger: {
-      info: (...args) => console.log(`[${CHANNEL_ID}]`, ...args),
-      warn: (...args) => console.warn(`[${CHANNEL_ID}]`, ...args),
-      error: (...args) => console.error(`[${CHANNEL_ID}]`, ...args),
-    },
+    endpoints: account.wsEndpoints.map((endpoint) => ({
+      url: endpoint.url,
+      accessToken: endpoint.accessToken || undefined,
+    })),
+    primaryRecheckMs: account.config.primaryRecheckMs,
+    reconnectMaxAttempts: account.config.reconnectMaxAttempts,
+    accessToken: account.accessToken || undefined,
+    logger: clientLogger,
+    sendScheduler: resolveSendScheduler(account),
+    outboundQueue: resolveOutboundQueue(account),
+    heartbeatTimeoutMs: account.config.heartbeatTimeoutMs || undefined,
   });
 }
 
 async function ensureSendClient(cfg: OpenClawConfig, accountId?: string | null): Promise<{
-  client: OneBotWsClient;
+  client: OneBotTransport;
   temporary: boolean;
 }> {
   const resolved = resolveQQAccount({ cfg, accountId });
   logInfo(`resolving send client for account="${resolved.accountId}"`);
-  const existing = clients.get(resolved.accountId);
+  const cached = clients.get(resolved.accountId);
+  const existing = cached && isClientCurrent(cached, resolved) ? cached : undefined;
   if (existing && existing.getState() === "open") {
     logInfo(`reusing opened client for account="${resolved.accountId}"`);
     return { client: existing, temporary: false };
   }
+  // 反向模式只能经由已接入的对端发送, 临时监听既等不到对端, 还会与网关争用端口
+  if (!existing && resolved.config.connectionMode === "reverse") {
+    throw new Error(
+      `PinguClaw QQ has no OneBot peer connected for account "${resolved.accountId}" (reverse mode)`,
+    );
+  }
   const temporary = !existing;
-  const client = existing ?? createClient(resolved);
+  // 临时客户端不写入缓存, 避免网关启动时复用到不监听上报的客户端
+  const client = existing ?? createClient(resolved, { sendOnly: true });
   if (client.getState() !== "open") {
     logInfo(
       `connecting send client for account="${resolved.accountId}" ${formatConnInfo(resolved)}`,
@@ -81,13 +228,84 @@ async function ensureSendClient(cfg: OpenClawConfig, accountId?: string | null):
     await client.connect();
     logInfo(`send client connected for account="${resolved.accountId}"`);
   }
-  if (!existing) {
-    clients.set(resolved.accountId, client);
-    logInfo(`send client cached for account="${resolved.accountId}"`);
-  }
   return { client, temporary };
 }
 
+// 出站发送统一入口: 复用运行中的客户端, 没有时建立临时连接并在发送结束后关闭(反向模式无法临时连接, 直接报错)。
+async function withSendClient<T>(
+  cfg: OpenClawConfig,
+  accountId: string | null | undefined,
+  run: (client: OneBotTransport, account: ResolvedQQAccount) => Promise<T>,
+): Promise<T> {
+  const { client, temporary } = await ensureSendClient(cfg, accountId);
+  const account = resolveQQAccount({ cfg, accountId });
+  try {
+    return await run(client, account);
+  } finally {
+    if (temporary) {
+      logInfo("closing temporary send client");
+      await client.disconnect();
+      logInfo(`temporary send client closed account="${account.accountId}"`);
+    }
+  }
+}
+
+// 按连接模式挑选 setup 输入中的相关字段, 其余模式的字段不写入配置。
+function buildSetupConfig(input: unknown): Record<string, unknown> {
+  const setupInput = input as {
+    connectionMode?: string;
+    wsUrl?: string;
+    accessToken?: string;
+    reverseHost?: string;
+    reversePort?: string | number;
+    reversePath?: string;
+    selfId?: string;
+    httpApiUrl?: string;
+    httpPostHost?: string;
+    httpPostPort?: string | number;
+    httpPostPath?: string;
+    httpSecret?: string;
+  };
+  const mode = String(setupInput.connectionMode ?? "").trim().toLowerCase();
+  // quickstart 传入的主人 QQ 号写入私聊白名单。
+  const allowedUsers = (input as { dmAllowlist?: string[] }).dmAllowlist
+    ?.map(normalizeQQUserId)
+    .filter(Boolean)
+    .join(",");
+  const base = allowedUsers ? { allowedUsers } : {};
+  if (mode === "reverse") {
+    return {
+      ...base,
+      connectionMode: "reverse",
+      reverseHost: setupInput.reverseHost,
+      reversePort: setupInput.reversePort,
+      reversePath: setupInput.reversePath,
+      selfId: setupInput.selfId,
+      accessToken: setupInput.accessToken,
+      enabled: true,
+    };
+  }
+  if (mode === "http") {
+    return {
+      ...base,
+      connectionMode: "http",
+      httpApiUrl: setupInput.httpApiUrl || "http://127.0.0.1:3000",
+      httpPostHost: setupInput.httpPostHost,
+      httpPostPort: setupInput.httpPostPort,
+      httpPostPath: setupInput.httpPostPath,
+      httpSecret: setupInput.httpSecret,
+      accessToken: setupInput.accessToken,
+      enabled: true,
+    };
+  }
+  return {
+    ...base,
+    wsUrl: setupInput.wsUrl || "ws://127.0.0.1:3001",
+    accessToken: setupInput.accessToken,
+    enabled: true,
+  };
+}
+
 export const QQChannel: ChannelPlugin<ResolvedQQAccount> = {
   id: CHANNEL_ID,
   meta: {
@@ -98,16 +316,16 @@ export const QQChannel: ChannelPlugin<ResolvedQQAccount> = {
     docsLabel: "pinguclaw",
     blurb: "PinguClaw QQ channel plugin via OneBot v11 websocket.",
     aliases: ["qq-pingu", "onebot"],
-    quickstartAllowFrom: false,
+    quickstartAllowFrom: true,
   },
   capabilities: {
     chatTypes: ["direct", "group"],
     blockStreaming: true,
-    media: false,
+    media: true,
     threads: false,
     polls: false,
     reactions: false,
-    nativeCommands: false,
+    nativeCommands: true,
   },
   reload: { configPrefixes: [`channels.${CHANNEL_ID}`] },
   configSchema: buildChannelConfigSchema(QQConfigSchema),
@@ -128,19 +346,76 @@ export const QQChannel: ChannelPlugin<ResolvedQQAccount> = {
         cfg,
         sectionKey: CHANNEL_ID,
         accountId,
-        clearBaseFields: ["wsUrl", "accessToken", "name"],
+        clearBaseFields: [
+          "connectionMode",
+          "wsUrl",
+          "accessToken",
+          "accessTokenFile",
+          "accessTokenEnv",
+          "reverseHost",
+          "reversePort",
+          "reversePath",
+          "selfId",
+          "httpApiUrl",
+          "httpPostHost",
+          "httpPostPort",
+          "httpPostPath",
+          "httpSecret",
+          "name",
+        ],
       }),
     isEnabled: (account) => account.enabled !== false,
     isConfigured: (account) => account.configured === true,
-    unconfiguredReason: () => "missing wsUrl",
+    unconfiguredReason: (account) => {
+      if (account.tokenError) {
+        return account.tokenError;
+      }
+      if (account.config.connectionMode === "reverse") {
+        return "missing reversePort";
+      }
+      return account.config.connectionMode === "http" ? "missing httpApiUrl" : "missing wsUrl";
+    },
     describeAccount: (account) => ({
       accountId: account.accountId,
       name: account.name,
       enabled: account.enabled,
       configured: account.configured,
-      dmPolicy: "n/a",
+      tokenSource: account.tokenSource,
+      dmPolicy: account.config.dmPolicy,
+      allowFrom: splitIdList(account.config.allowedUsers),
     }),
   },
+  onboarding: qqOnboardingAdapter,
+  security: {
+    resolveDmPolicy: ({ account }) => {
+      const basePath =
+        account.accountId === DEFAULT_ACCOUNT_ID
+          ? `channels.${CHANNEL_ID}`
+          : `channels.${CHANNEL_ID}.accounts.${account.accountId}`;
+      return {
+        policy: account.config.dmPolicy,
+        allowFrom: splitIdList(account.config.allowedUsers),
+        policyPath: `${basePath}.dmPolicy`,
+        allowFromPath: `${basePath}.allowedUsers`,
+        approveHint: formatPairingApproveHint(CHANNEL_ID),
+        normalizeEntry: normalizeQQUserId,
+      };
+    },
+  },
+  pairing: {
+    idLabel: "qqUserId",
+    normalizeAllowEntry: normalizeQQUserId,
+    notifyApproval: async ({ cfg, id }) => {
+      await withSendClient(cfg, undefined, (client, account) =>
+        dispatchQQMessage({
+          client,
+          to: `private:${normalizeQQUserId(id)}`,
+          text: PAIRING_APPROVED_MESSAGE,
+          config: account.config,
+        }),
+      );
+    },
+  },
   setup: {
     resolveAccountId: ({ accountId }) => normalizeAccountId(accountId),
     applyAccountName: ({ cfg, accountId, name }) =>
@@ -151,6 +426,21 @@ export const QQChannel: ChannelPlugin<ResolvedQQAccount> = {
         name,
       }),
     validateInput: ({ input }) => {
+      const mode = String((input as { connectionMode?: string }).connectionMode ?? "").trim().toLowerCase();
+      if (mode === "reverse") {
+        const port = Number((input as { reversePort?: string | number }).reversePort ?? 8080);
+        if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+          return "PinguClaw QQ reversePort must be a valid TCP port";
+        }
+        return null;
+      }
+      if (mode === "http") {
+        const apiUrl = String((input as { httpApiUrl?: string }).httpApiUrl ?? "").trim();
+        if (apiUrl && !/^https?:\/\//i.test(apiUrl)) {
+          return "PinguClaw QQ httpApiUrl must start with http:// or https://";
+        }
+        return null;
+      }
       const wsUrl = String((input as { wsUrl?: string }).wsUrl ?? "").trim();
       if (!wsUrl) {
         return "PinguClaw QQ requires --ws-url";
@@ -183,11 +473,7 @@ export const QQChannel: ChannelPlugin<ResolvedQQAccount> = {
           }
         | undefined;
 
-      const newConfig = {
-        wsUrl: (input as { wsUrl?: string }).wsUrl || "ws://127.0.0.1:3001",
-        accessToken: (input as { accessToken?: string }).accessToken,
-        enabled: true,
-      };
+      const newConfig = buildSetupConfig(input);
 
       if (accountId === DEFAULT_ACCOUNT_ID) {
         return {
@@ -218,6 +504,69 @@ export const QQChannel: ChannelPlugin<ResolvedQQAccount> = {
       };
     },
   },
+  status: {
+    // 优先探测网关中正在运行的连接; 未运行时返回最近一次的探测结果
+    probeAccount: async ({ account }) => {
+      const client = clients.get(account.accountId);
+      if (!client || client.getState() !== "open") {
+        return (
+          probes.get(account.accountId)?.latest() ?? {
+            ok: false,
+            error: "not connected",
+            at: Date.now(),
+            elapsedMs: 0,
+          }
+        );
+      }
+      return probeQQAccount({ client, expectedSelfId: account.config.selfId || undefined });
+    },
+    buildAccountSnapshot: ({ account, runtime, probe }) => ({
+      ...runtime,
+      accountId: account.accountId,
+      name: account.name,
+      enabled: account.enabled,
+      configured: account.configured,
+      mode: account.config.connectionMode,
+      tokenSource: account.tokenSource,
+      dmPolicy: account.config.dmPolicy,
+      probe: probe ?? runtime?.probe,
+    }),
+    collectStatusIssues: (accounts) =>
+      accounts.flatMap((snapshot) => {
+        const issues = [];
+        if (snapshot.enabled !== false && snapshot.running === false && snapshot.reconnectAttempts) {
+          issues.push({
+            channel: CHANNEL_ID,
+            accountId: snapshot.accountId,
+            kind: "runtime" as const,
+            message: snapshot.lastError || `Gave up reconnecting after ${snapshot.reconnectAttempts} attempts`,
+            fix: "Check that the OneBot implementation is reachable and accessToken is correct, then restart the account; set reconnectMaxAttempts to 0 to retry forever",
+          });
+        }
+        const probe = snapshot.probe as QQProbe | undefined;
+        if (!probe) {
+          return issues;
+        }
+        if (probe.selfIdMismatch) {
+          issues.push({
+            channel: CHANNEL_ID,
+            accountId: snapshot.accountId,
+            kind: "config" as const,
+            message: `OneBot is logged in as ${probe.selfId ?? "another account"}, expected ${probe.expectedSelfId}`,
+            fix: "Check that the OneBot implementation is logged in to the right QQ account, or update selfId",
+          });
+        }
+        if (probe.ok && probe.online === false) {
+          issues.push({
+            channel: CHANNEL_ID,
+            accountId: snapshot.accountId,
+            kind: "runtime" as const,
+            message: "QQ account is offline according to get_status",
+          });
+        }
+        return issues;
+      }),
+  },
   messaging: {
     normalizeTarget: (raw) => raw.trim().replace(/^(qq|pinguclaw):/i, ""),
     targetResolver: {
@@ -242,6 +591,18 @@ export const QQChannel: ChannelPlugin<ResolvedQQAccount> = {
       }
 
       let client = clients.get(account.accountId);
+      if (client && !isClientCurrent(client, account)) {
+        ctx.log?.info?.(
+          `[${CHANNEL_ID}] connection config changed, recreating client account="${account.accountId}"`,
+        );
+        detachInboundHandlers.get(account.accountId)?.();
+        detachInboundHandlers.delete(account.accountId);
+        detachLifecycleHandlers.get(account.accountId)?.();
+        detachLifecycleHandlers.delete(account.accountId);
+        await client.disconnect();
+        clients.delete(account.accountId);
+        client = undefined;
+      }
       if (!client) {
         client = createClient(account);
         clients.set(account.accountId, client);
@@ -264,14 +625,25 @@ export const QQChannel: ChannelPlugin<ResolvedQQAccount> = {
       // 防止网关重复启动同一 account 时重复绑定事件监听，导致日志和状态更新被放大。
       detachLifecycleHandlers.get(account.accountId)?.();
       const offOpen = client.on("open", () => {
-        ctx.log?.info?.(`[${CHANNEL_ID}] websocket opened account="${account.accountId}"`);
+        // 正向连接配置了多个端点时, 记录当前连上的是哪一个
+        const endpoint = client instanceof OneBotWsClient ? client.getActiveEndpoint() : null;
+        ctx.log?.info?.(
+          `[${CHANNEL_ID}] websocket opened account="${account.accountId}"${endpoint ? ` endpoint=#${endpoint.index} ${redactUrl(endpoint.url)}` : ""}`,
+        );
         ctx.setStatus({
           ...ctx.getStatus(),
           connected: true,
           running: true,
+          reconnectAttempts: 0,
           lastConnectedAt: Date.now(),
+          ...(endpoint ? { baseUrl: redactUrl(endpoint.url) } : {}),
         });
       });
+      const offFailover = client.on("failover", (event) => {
+        ctx.log?.warn?.(
+          `[${CHANNEL_ID}] endpoint failover account="${account.accountId}" #${event.from} -> #${event.to} ${redactUrl(event.url)} reason="${event.reason}"`,
+        );
+      });
       const offClose = client.on("close", (event) => {
         ctx.log?.warn?.(
           `[${CHANNEL_ID}] websocket closed account="${account.accountId}" code=${event.code} reason="${event.reason}"`,
@@ -303,10 +675,77 @@ export const QQChannel: ChannelPlugin<ResolvedQQAccount> = {
       });
       const offReconnect = client.on("reconnecting", (event) => {
         ctx.log?.warn?.(
-          `[${CHANNEL_ID}] reconnecting account="${account.accountId}" attempt=${event.attempt} delayMs=${event.delayMs} reason="${event.reason}"`,
+          `[${CHANNEL_ID}] reconnecting account="${account.accountId}" attempt=${event.attempt} delayMs=${event.delayMs} reason="${event.reason}"${event.circuitOpen ? " circuit=open" : ""}`,
+        );
+        ctx.setStatus({
+          ...ctx.getStatus(),
+          reconnectAttempts: event.attempt,
+        });
+      });
+      // 重连耗尽后连接不会再恢复, 标记为未运行, 由 collectStatusIssues 提示运维。
+      const offExhausted = client.on("reconnect_exhausted", (event) => {
+        ctx.log?.error?.(
+          `[${CHANNEL_ID}] reconnect exhausted account="${account.accountId}" attempts=${event.attempts} reason="${event.reason}"`,
         );
+        ctx.setStatus({
+          ...ctx.getStatus(),
+          running: false,
+          connected: false,
+          reconnectAttempts: event.attempts,
+          lastError: `reconnect exhausted after ${event.attempts} attempts (${event.reason})`,
+        });
+      });
+      const offHealth = client.on("health", (health) => {
+        const detail = `account="${account.accountId}" state=${health.state} reason="${health.reason ?? ""}" online=${health.online ?? "?"}`;
+        if (health.state === "healthy") {
+          ctx.log?.info?.(`[${CHANNEL_ID}] health ${detail}`);
+        } else {
+          ctx.log?.warn?.(`[${CHANNEL_ID}] health ${detail}`);
+        }
+        const current = ctx.getStatus();
+        ctx.setStatus({
+          ...current,
+          // 恢复健康时清除降级/停用留下的错误, 避免状态一直显示过期错误
+          lastError: health.state === "healthy" ? null : `OneBot ${health.state}: ${health.reason ?? "unknown"}`,
+          // 心跳上报的在线状态比定时探测更及时, 合并进 probe 供 collectStatusIssues 检查
+          ...(health.online !== undefined
+            ? { probe: { ...(current.probe as QQProbe | undefined), online: health.online } }
+            : {}),
+        });
       });
-      const offMessage = client.on("message", () => {
+      const probe = createQQAccountProbe({
+        client,
+        expectedSelfId: account.config.selfId || undefined,
+        intervalMs: account.config.probeIntervalMs,
+        onProbe: (result) => {
+          if (result.ok) {
+            ctx.log?.info?.(
+              `[${CHANNEL_ID}] probe ok account="${account.accountId}" selfId=${result.selfId} nickname="${result.nickname ?? ""}" app="${result.appName ?? "?"} ${result.appVersion ?? ""}" online=${result.online ?? "?"}`,
+            );
+          } else {
+            ctx.log?.warn?.(`[${CHANNEL_ID}] probe failed account="${account.accountId}" error="${result.error}"`);
+          }
+          ctx.setStatus({
+            ...ctx.getStatus(),
+            probe: result,
+            lastProbeAt: result.at,
+            ...(result.ok ? { bot: { id: result.selfId, username: result.nickname } } : {}),
+          });
+        },
+        onSelfIdMismatch: (actual, expected) => {
+          const message = `self_id mismatch: events from ${actual}, expected ${expected}`;
+          ctx.log?.warn?.(`[${CHANNEL_ID}] ${message} account="${account.accountId}"`);
+          const current = ctx.getStatus();
+          ctx.setStatus({
+            ...current,
+            lastError: message,
+            probe: { ...(current.probe as QQProbe | undefined), selfIdMismatch: true },
+          });
+        },
+      });
+      probes.set(account.accountId, probe);
+      const offMessage = client.on("message", (event) => {
+        probe.checkEventSelfId(event.self_id);
         ctx.setStatus({
           ...ctx.getStatus(),
           lastInboundAt: Date.now(),
@@ -323,24 +762,61 @@ export const QQChannel: ChannelPlugin<ResolvedQQAccount> = {
         offClose();
         offError();
         offReconnect();
+        offExhausted();
+        offFailover();
+        offHealth();
         offMessage();
         offResponse();
+        probe.stop();
+        probes.delete(account.accountId);
       });
 
-      ctx.log?.info?.(`[${CHANNEL_ID}] connecting websocket account="${account.accountId}"`);
-      await client.connect();
-      ctx.log?.info?.(`[${CHANNEL_ID}] connect finished account="${account.accountId}"`);
+      // 先挂载入站处理器再连接, 否则首连失败后由客户端自行重连成功时, 入站消息无人处理。
       detachInboundHandlers.get(account.accountId)?.();
-      detachInboundHandlers.set(
-        account.accountId,
-        attachQQMessageHandler({
-          client,
-          cfg: ctx.cfg,
-          account,
-        }),
-      );
+      const requestHandler = createQQRequestHandler({
+        client,
+        config: account.config,
+        quickOperation: client instanceof OneBotHttpClient,
+        log: ctx.log,
+        logPrefix: `[${CHANNEL_ID}]`,
+      });
+      quickOperationResolvers.set(account.accountId, requestHandler.resolveQuickOperation);
+      const detachMessage = attachQQMessageHandler({
+        client,
+        cfg: ctx.cfg,
+        account,
+        interceptors: [requestHandler.handleOperatorMessage],
+      });
+      detachInboundHandlers.set(account.accountId, () => {
+        detachMessage();
+        requestHandler.detach();
+        quickOperationResolvers.delete(account.accountId);
+      });
       ctx.log?.info?.(`[${CHANNEL_ID}] inbound handler attached account="${account.accountId}"`);
 
+      ctx.log?.info?.(`[${CHANNEL_ID}] connecting websocket account="${account.accountId}"`);
+      try {
+        await client.connect();
+        ctx.log?.info?.(`[${CHANNEL_ID}] connect finished account="${account.accountId}"`);
+      } catch (error) {
+        // 正向连接失败后客户端会按退避继续重连(耗尽时另行上报), 不让网关重启整个账号;
+        // 反向/HTTP 模式的 connect 是本地监听, 失败(如端口占用)无法自行恢复, 照常抛出。
+        if (!(client instanceof OneBotWsClient)) {
+          detachInboundHandlers.get(account.accountId)?.();
+          detachInboundHandlers.delete(account.accountId);
+          throw error;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        ctx.log?.warn?.(
+          `[${CHANNEL_ID}] initial connect failed, client keeps retrying account="${account.accountId}" error="${message}"`,
+        );
+        ctx.setStatus({
+          ...ctx.getStatus(),
+          connected: false,
+          lastError: message,
+        });
+      }
+
       await new Promise<void>((resolve) => {
         if (ctx.abortSignal.aborted) {
           ctx.log?.info?.(
@@ -381,36 +857,46 @@ export const QQChannel: ChannelPlugin<ResolvedQQAccount> = {
         ...ctx.getStatus(),
         running: false,
         connected: false,
+        reconnectAttempts: 0,
         lastStopAt: Date.now(),
       });
     },
   },
   outbound: {
     deliveryMode: "direct",
-    sendText: async ({ cfg, to, text, accountId, replyToId }) => {
-      const { client, temporary } = await ensureSendClient(cfg, accountId);
-      try {
-        logInfo(`dispatch outbound message account="${resolveQQAccount({ cfg, accountId }).accountId}"`);
+    sendText: async ({ cfg, to, text, accountId, replyToId }) =>
+      withSendClient(cfg, accountId, async (client, account) => {
+        logInfo(`dispatch outbound message account="${account.accountId}"`);
         const result = await dispatchQQMessage({
           client,
           to,
           text,
           replyToId: replyToId ?? null,
+          config: account.config,
         });
         return {
           channel: CHANNEL_ID,
           ok: true,
           messageId: result.messageId ?? "0",
         };
-      } finally {
-        if (temporary) {
-          logInfo("closing temporary send client");
-          await client.disconnect();
-          const resolved = resolveQQAccount({ cfg, accountId });
-          clients.delete(resolved.accountId);
-          logInfo(`temporary send client closed account="${resolved.accountId}"`);
-        }
-      }
-    },
+      }),
+    sendMedia: async ({ cfg, to, text, mediaUrl, mediaLocalRoots, accountId, replyToId }) =>
+      withSendClient(cfg, accountId, async (client, account) => {
+        logInfo(`dispatch outbound media account="${account.accountId}"`);
+        const result = await dispatchQQMessage({
+          client,
+          to,
+          text,
+          replyToId: replyToId ?? null,
+          config: account.config,
+          media: mediaUrl ? [mediaUrl] : [],
+          mediaLocalRoots,
+        });
+        return {
+          channel: CHANNEL_ID,
+          ok: true,
+          messageId: result.messageId ?? "0",
+        };
+      }),
   },
 };
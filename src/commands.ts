@@ -0,0 +1,196 @@
+import type OneBotTransport from "../libs/onebot/transport";
+import type { OneBotMessageEvent } from "../libs/onebot/types";
+import type { ResolvedQQAccount } from "./accounts";
+import type { QQMemberCache } from "./access";
+import type { QQGroupSettings } from "./groups";
+import type { QQAgentTurn } from "./monitor";
+import { dispatchQQMessage } from "./send";
+
+const DEFAULT_MUTE_MINUTES = 30;
+const MAX_MUTE_MINUTES = 7 * 24 * 60;
+
+type QQCommandContext = {
+  event: OneBotMessageEvent;
+  group?: QQGroupSettings;
+  senderId: string;
+  senderName: string;
+  timestamp: number;
+  args: string;
+  reply: (text: string) => Promise<void>;
+};
+
+type QQCommand = {
+  names: string[];
+  usage: string;
+  description: string;
+  // 群聊中仅群主/管理员可用, 私聊不限制
+  adminOnly?: boolean;
+  run: (ctx: QQCommandContext) => Promise<void>;
+};
+
+function parseCommand(text: string, prefix: string, selfId: number): { name: string; args: string } | null {
+  // 群聊中允许 `@机器人 /status` 的写法
+  const body = text.replace(new RegExp(`^@${selfId}\\s*`), "").trim();
+  if (!body.startsWith(prefix)) {
+    return null;
+  }
+  const match = body.slice(prefix.length).match(/^(\S+)\s*([\s\S]*)$/);
+  if (!match) {
+    return null;
+  }
+  return { name: match[1].toLowerCase(), args: match[2].trim() };
+}
+
+/**
+ * 频道内置命令。
+ *
+ * - `reset` / `status` / `model`: 以原生命令交给 OpenClaw 命令层处理(重置会话、查看状态、查看/切换模型)
+ * - `mute [分钟]` / `unmute`: 让机器人在本群暂时静音, 期间消息只记入上下文缓冲
+ * - `help`: 列出可用命令
+ *
+ * 前缀由 `commandPrefix` 配置; 未识别的命令不处理, 按普通消息交给 agent。
+ */
+export function createQQCommandRouter(params: {
+  client: OneBotTransport;
+  account: ResolvedQQAccount;
+  members: QQMemberCache;
+  mute: (groupId: string, durationMs: number) => void;
+  unmute: (groupId: string) => void;
+  dispatchToAgent: (turn: QQAgentTurn) => Promise<void>;
+  logPrefix?: string;
+}): {
+  handleCommand: (params: {
+    event: OneBotMessageEvent;
+    plainText: string;
+    group?: QQGroupSettings;
+    // 群处于静音期间只响应 unmute
+    muted?: boolean;
+    senderId: string;
+    senderName: string;
+    timestamp: number;
+  }) => Promise<boolean>;
+} {
+  const prefix = params.account.config.commandPrefix ?? "";
+  const logPrefix = params.logPrefix ?? "[qq]";
+
+  const forwardNative = (command: string) => async (ctx: QQCommandContext) => {
+    await params.dispatchToAgent({
+      isGroup: Boolean(ctx.group),
+      groupId: ctx.event.group_id,
+      senderId: ctx.senderId,
+      senderName: ctx.senderName,
+      body: ctx.args ? `/${command} ${ctx.args}` : `/${command}`,
+      command,
+      timestamp: ctx.timestamp,
+      replyToId: ctx.group && ctx.event.message_id != null ? String(ctx.event.message_id) : undefined,
+    });
+  };
+
+  const commands: QQCommand[] = [
+    {
+      names: ["help", "帮助"],
+      usage: "help",
+      description: "显示命令列表",
+      run: async (ctx) => {
+        const lines = commands.map((command) => {
+          const note = command.adminOnly ? " (群管理员)" : "";
+          return `${prefix}${command.usage} - ${command.description}${note}`;
+        });
+        await ctx.reply(lines.join("\n"));
+      },
+    },
+    {
+      names: ["status", "状态"],
+      usage: "status",
+      description: "查看会话与模型状态",
+      run: forwardNative("status"),
+    },
+    {
+      names: ["model", "模型"],
+      usage: "model [名称]",
+      description: "查看或切换模型",
+      adminOnly: true,
+      run: forwardNative("model"),
+    },
+    {
+      names: ["reset", "new", "重置"],
+      usage: "reset",
+      description: "重置当前会话",
+      adminOnly: true,
+      run: forwardNative("reset"),
+    },
+    {
+      names: ["mute", "静音"],
+      usage: "mute [分钟]",
+      description: `本群静音, 默认 ${DEFAULT_MUTE_MINUTES} 分钟`,
+      adminOnly: true,
+      run: async (ctx) => {
+        if (!ctx.group) {
+          await ctx.reply("该命令只能在群聊中使用");
+          return;
+        }
+        const minutes = ctx.args ? Number(ctx.args) : DEFAULT_MUTE_MINUTES;
+        if (!Number.isFinite(minutes) || minutes <= 0) {
+          await ctx.reply(`用法: ${prefix}mute [分钟]`);
+          return;
+        }
+        const duration = Math.min(Math.ceil(minutes), MAX_MUTE_MINUTES);
+        params.mute(ctx.group.groupId, duration * 60_000);
+        console.log(`${logPrefix} muted by command group=${ctx.group.groupId} user=${ctx.senderId} minutes=${duration}`);
+        await ctx.reply(`好的, 接下来 ${duration} 分钟内不再回复, 可用 ${prefix}unmute 提前恢复`);
+      },
+    },
+    {
+      names: ["unmute", "取消静音"],
+      usage: "unmute",
+      description: "取消本群静音",
+      adminOnly: true,
+      run: async (ctx) => {
+        if (!ctx.group) {
+          await ctx.reply("该命令只能在群聊中使用");
+          return;
+        }
+        params.unmute(ctx.group.groupId);
+        console.log(`${logPrefix} unmuted by command group=${ctx.group.groupId} user=${ctx.senderId}`);
+        await ctx.reply("已恢复回复");
+      },
+    },
+  ];
+
+  const handleCommand: ReturnType<typeof createQQCommandRouter>["handleCommand"] = async (input) => {
+    if (!prefix) {
+      return false;
+    }
+    const parsed = parseCommand(input.plainText, prefix, input.event.self_id);
+    const command = parsed && commands.find((entry) => entry.names.includes(parsed.name));
+    if (!parsed || !command) {
+      return false;
+    }
+    if (input.muted && !command.names.includes("unmute")) {
+      return false;
+    }
+
+    const { event, group } = input;
+    const reply = async (text: string) => {
+      await dispatchQQMessage({
+        client: params.client,
+        to: group ? `group:${group.groupId}` : `private:${input.senderId}`,
+        text,
+        replyToId: group && event.message_id != null ? String(event.message_id) : undefined,
+        config: params.account.config,
+      });
+    };
+
+    if (group && command.adminOnly) {
+      const role = await params.members.resolveRole(event);
+      if (role !== "owner" && role !== "admin") {
+        await reply("仅群主或管理员可使用该命令");
+        return true;
+      }
+    }
+    await command.run({ ...input, args: parsed.args, reply });
+    return true;
+  };
+
+  return { handleCommand };
+}
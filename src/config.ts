@@ -1,22 +1,170 @@
 import z from "zod";
-import { looseBool, looseNumber, looseString } from "../libs/zod-ext";
+import { looseBool, looseEnum, looseNumber, looseString } from "../libs/zod-ext";
+
+export const REQUEST_POLICIES = ["ignore", "approve", "reject", "allowlist", "comment", "forward"] as const;
+
+export type QQRequestPolicy = (typeof REQUEST_POLICIES)[number];
+
+export const NOTICE_MODES = ["off", "template", "agent"] as const;
+
+// 群聊回复方式: quote 引用触发消息; mention @触发者; plain 直接发送
+export const REPLY_STYLES = ["quote", "mention", "plain"] as const;
+
+export const GROUP_ROLES = ["owner", "admin", "member"] as const;
+
+// 单个群的覆盖配置, 未设置的字段依次回退到 groups["*"] 与账号级配置。
+export const QQGroupConfigSchema = z
+  .object({
+    enabled: looseBool(true).optional(),
+    requireMention: looseBool(true).optional(),
+    keywordTriggers: looseString,
+    // 群级黑名单, 与账号级 blockedUsers 合并; 支持 `10000-19999` 号段
+    blockedUsers: looseString,
+    // 仅名单内用户可触发 agent(支持号段), 为空不限制
+    allowedUsers: looseString,
+    // 仅指定角色可触发 agent, 逗号分隔: owner,admin,member; 为空不限制
+    // 未知角色直接报错, 避免拼写错误被当作 member 放宽权限
+    allowedRoles: looseString.refine(
+      (value) =>
+        splitIdList(value).every((role) => (GROUP_ROLES as readonly string[]).includes(role.toLowerCase())),
+      { message: `allowedRoles only accepts ${GROUP_ROLES.join(", ")}` },
+    ),
+    historyLimit: looseNumber(0).optional(),
+    // 追加给 agent 的群聊系统提示词
+    systemPrompt: looseString,
+    // 将该群绑定到指定 agent, 覆盖 OpenClaw 路由结果
+    agentId: looseString,
+    replyStyle: looseEnum(REPLY_STYLES, "quote").optional(),
+  })
+  .passthrough();
+
+export type QQGroupConfig = z.infer<typeof QQGroupConfigSchema>;
+
+// 正向 WebSocket 端点, 可写成 URL 字符串或 { url, accessToken, accessTokenFile, accessTokenEnv }
+export const QQWsEndpointSchema = z.preprocess(
+  (value) => (typeof value === "string" ? { url: value } : value),
+  z.object({
+    url: looseString.default(""),
+    // 三者均为空时使用账号级 accessToken; 优先级与账号级相同: accessTokenFile > accessTokenEnv > accessToken
+    accessToken: looseString,
+    accessTokenFile: looseString,
+    accessTokenEnv: looseString,
+  }),
+);
+
+export type QQWsEndpoint = z.infer<typeof QQWsEndpointSchema>;
 
 export const QQConfigSchema = z
   .object({
+    // forward: 主动连接 wsUrl; reverse: 本地监听, 由 OneBot 实现反向接入;
+    // http: 通过 HTTP API 发送动作, 本地监听接收 HTTP POST 上报。
+    connectionMode: looseEnum(["forward", "reverse", "http"], "forward").default("forward"),
     wsUrl: z
       .preprocess(
         (value) => (value == null || String(value).trim() === "" ? "ws://127.0.0.1:3001" : value),
         z.string(),
       )
       .default("ws://127.0.0.1:3001"),
+    // 故障转移端点, 按顺序尝试, 第一个为主端点; 配置后取代 wsUrl
+    wsEndpoints: z
+      .preprocess(
+        (value) => (Array.isArray(value) ? value : undefined),
+        z.array(QQWsEndpointSchema).optional(),
+      )
+      .default([]),
+    // 连接在备用端点时探测主端点的间隔, 主端点恢复后自动切回; 0 为不切回
+    primaryRecheckMs: looseNumber(60000).default(60000),
+    // 正向 WebSocket 断线后的最大重连次数, 0 为不限次数(退避上限 30 秒)
+    reconnectMaxAttempts: looseNumber(20).default(20),
     accessToken: looseString.default(""),
+    // 从文件读取 accessToken(如 Docker secret), 优先于 accessTokenEnv 与 accessToken
+    accessTokenFile: looseString.default(""),
+    // 从指定名称的环境变量读取 accessToken, 优先于 accessToken
+    accessTokenEnv: looseString.default(""),
+    reverseHost: looseString.default("0.0.0.0"),
+    reversePort: looseNumber(8080).default(8080),
+    reversePath: looseString.default("/onebot/v11/ws"),
+    selfId: looseString.default(""),
+    httpApiUrl: looseString.default("http://127.0.0.1:3000"),
+    httpPostHost: looseString.default("0.0.0.0"),
+    httpPostPort: looseNumber(5701).default(5701),
+    httpPostPath: looseString.default("/"),
+    httpSecret: looseString.default(""),
     enabled: looseBool(true).default(true),
+    // 连接建立后及每隔 probeIntervalMs 通过 get_login_info/get_status/get_version_info 探测账号, 0 为只在连接时探测
+    probeIntervalMs: looseNumber(300000).default(300000),
+    // 超过该时长未收到任何数据即视为连接失联, 0 为按心跳元事件的 interval 推算(3 个周期)
+    heartbeatTimeoutMs: looseNumber(0).default(0),
     name: looseString.default(""),
     requireMention: looseBool(true).default(true),
     keywordTriggers: looseString.default(""),
     allowedGroups: looseString.default(""),
+    // 按群号覆盖群聊设置, "*" 为所有群的默认值
+    groups: z
+      .preprocess(
+        (value) => (value && typeof value === "object" && !Array.isArray(value) ? value : undefined),
+        z.record(z.string(), QQGroupConfigSchema).optional(),
+      )
+      .default({}),
+    // 原生命令前缀(如 / 或 #), 留空关闭命令处理; 未识别的命令原样交给 agent
+    commandPrefix: looseString.default("/"),
+    // 私聊访问策略: open 任何人(默认, 与引入该选项前一致); allowlist 仅 allowedUsers 与已配对用户;
+    // pairing 未授权用户收到配对码, 经 OpenClaw 审批后放行; disabled 不处理私聊。
+    dmPolicy: looseEnum(["open", "allowlist", "pairing", "disabled"], "open").default("open"),
+    allowedUsers: looseString.default(""),
+    // 黑名单用户的私聊与群消息都会被忽略; 支持 `10000-19999` 形式的号段
     blockedUsers: looseString.default(""),
     historyLimit: looseNumber(0).default(0),
+    // 断线重连后通过 get_group_msg_history 回填群聊上下文缓冲
+    historyBackfill: looseBool(false).default(false),
+    mediaMaxMb: looseNumber(20).default(20),
+    // 允许下载并交给 agent 的入站媒体段类型, 逗号分隔: image,file,record
+    mediaInboundTypes: looseString.default("image,file,record"),
+    // 入站合并转发通过 get_forward_msg 展开为聊天记录交给 agent:
+    // forwardExpandDepth 为嵌套展开层数(0 不展开), forwardExpandMaxChars 为展开文本的字数上限
+    forwardExpandDepth: looseNumber(2).default(2),
+    forwardExpandMaxChars: looseNumber(4000).default(4000),
+    // 出站媒体的传递方式: base64 内联编码; path 对本地文件直接传 file:// 路径(需与 OneBot 实现共享文件系统)
+    mediaTransfer: looseEnum(["base64", "path"], "base64").default("base64"),
+    // 好友申请 / 邀请入群 / 他人申请加入机器人管理的群 的处理策略:
+    // ignore 不处理; approve 自动同意; reject 自动拒绝; allowlist 名单内同意;
+    // comment 验证消息匹配 requestCommentPattern 时同意; forward 转发给 requestForwardTo 人工审批。
+    // allowlist/comment 未命中时, 配置了 requestForwardTo 则转人工, 否则拒绝。
+    friendRequestPolicy: looseEnum(REQUEST_POLICIES, "ignore").default("ignore"),
+    groupInvitePolicy: looseEnum(REQUEST_POLICIES, "ignore").default("ignore"),
+    groupJoinPolicy: looseEnum(REQUEST_POLICIES, "ignore").default("ignore"),
+    requestAllowUsers: looseString.default(""),
+    requestAllowGroups: looseString.default(""),
+    requestCommentPattern: looseString.default(""),
+    requestForwardTo: looseString.default(""),
+    requestRejectReason: looseString.default(""),
+    // 回复文本的 Markdown 处理: raw 原样发送(默认, 与引入该选项前一致); plain 去除语法; rendered 转为适合 QQ 阅读的排版
+    markdownMode: looseEnum(["raw", "plain", "rendered"], "raw").default("raw"),
+    // 长回复处理: 超过 textChunkLimit 时按段落/代码块拆分发送;
+    // longReplyMode=forward 且拆分后不少于 forwardMinChunks 段时改为合并转发(失败时回退为拆分发送)。
+    textChunkLimit: looseNumber(1500).default(1500),
+    longReplyMode: looseEnum(["split", "forward"], "split").default("split"),
+    forwardMinChunks: looseNumber(3).default(3),
+    // 出站限速: 账号级与目标级令牌桶(条/分钟, 0 为不限), 同一目标相邻消息间隔 sendSpacingMs 加随机抖动;
+    // 超时或可重试错误最多重试 sendMaxRetries 次。默认关闭, 与引入该选项前一致, 开启后长回复会按上述速率分批发出。
+    sendRateLimit: looseBool(false).default(false),
+    sendRatePerMinute: looseNumber(20).default(20),
+    sendBurst: looseNumber(5).default(5),
+    targetRatePerMinute: looseNumber(10).default(10),
+    targetBurst: looseNumber(3).default(3),
+    sendSpacingMs: looseNumber(800).default(800),
+    sendJitterMs: looseNumber(400).default(400),
+    sendMaxRetries: looseNumber(2).default(2),
+    sendRetryDelayMs: looseNumber(1000).default(1000),
+    // 断线重连期间缓冲出站动作, 连接恢复后按顺序发出; outboundQueueSize=0 时不缓冲
+    outboundQueueSize: looseNumber(100).default(100),
+    outboundQueueMaxAgeMs: looseNumber(30000).default(30000),
+    // 通知事件响应: off 不响应; template 按模板直接回复; agent 构造一条合成消息交给 agent。
+    // 模板支持 {user_id} / {group_id} 占位符。
+    pokeMode: looseEnum(NOTICE_MODES, "off").default("off"),
+    pokeTemplate: looseString.default("别戳啦~"),
+    welcomeMode: looseEnum(NOTICE_MODES, "off").default("off"),
+    welcomeTemplate: looseString.default("欢迎加入本群!"),
   })
   .passthrough();
 
@@ -0,0 +1,142 @@
+import type OneBotTransport from "../libs/onebot/transport";
+import type { OneBotForwardMsgData, OneBotMessageInput } from "../libs/onebot/types";
+import { extractForwardRefs, parseInboundCQ, toPlainText, type CQParseResult } from "../libs/cq";
+
+type ForwardRef = ReturnType<typeof extractForwardRefs>[number];
+
+type ForwardEntry = {
+  sender: string;
+  time?: number;
+  message: OneBotMessageInput;
+};
+
+type RenderState = {
+  client: OneBotTransport;
+  maxDepth: number;
+  remaining: number;
+  truncated: boolean;
+  lines: string[];
+  logPrefix: string;
+};
+
+// 标准实现返回 node 段列表, NapCat/LLOneBot 返回带 sender 的消息列表, 统一为 ForwardEntry。
+function normalizeForwardEntries(items: unknown[]): ForwardEntry[] {
+  const out: ForwardEntry[] = [];
+  for (const item of items) {
+    const node = (item ?? {}) as Record<string, unknown>;
+    if (node.type === "node" && node.data && typeof node.data === "object") {
+      const data = node.data as Record<string, unknown>;
+      out.push({
+        sender: String(data.nickname || data.name || data.user_id || data.uin || ""),
+        time: Number(data.time) || undefined,
+        message: (data.content ?? data.message ?? "") as OneBotMessageInput,
+      });
+      continue;
+    }
+    const sender = (node.sender ?? {}) as { card?: string; nickname?: string; user_id?: number };
+    out.push({
+      sender: String(sender.card || sender.nickname || sender.user_id || node.user_id || ""),
+      time: Number(node.time) || undefined,
+      message: (node.message ?? node.content ?? node.raw_message ?? "") as OneBotMessageInput,
+    });
+  }
+  return out;
+}
+
+function readForwardItems(data: OneBotForwardMsgData | null | undefined): unknown[] {
+  if (Array.isArray(data?.messages)) {
+    return data.messages;
+  }
+  if (Array.isArray(data?.message)) {
+    return data.message;
+  }
+  return [];
+}
+
+function formatTime(seconds?: number): string {
+  if (!seconds) {
+    return "";
+  }
+  const date = new Date(seconds * 1000);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function pushLine(state: RenderState, line: string): void {
+  if (state.truncated) {
+    return;
+  }
+  if (line.length + 1 > state.remaining) {
+    state.lines.push(`${line.slice(0, Math.max(0, state.remaining - 1))}…`);
+    state.truncated = true;
+    return;
+  }
+  state.lines.push(line);
+  state.remaining -= line.length + 1;
+}
+
+async function renderForward(state: RenderState, ref: ForwardRef, depth: number): Promise<void> {
+  const indent = "  ".repeat(depth);
+  let items = ref.content;
+  if (!items) {
+    try {
+      items = readForwardItems(await state.client.getForwardMsg(ref.id));
+    } catch (error) {
+      console.warn(`${state.logPrefix} get_forward_msg failed id=${ref.id}`, error);
+      pushLine(state, `${indent}[forward unavailable]`);
+      return;
+    }
+  }
+
+  for (const entry of normalizeForwardEntries(items)) {
+    if (state.truncated) {
+      return;
+    }
+    const parsed = parseInboundCQ(entry.message);
+    const time = formatTime(entry.time);
+    pushLine(state, `${indent}${time ? `[${time}] ` : ""}${entry.sender || "unknown"}: ${toPlainText(parsed)}`);
+    if (depth + 1 >= state.maxDepth) {
+      continue;
+    }
+    for (const nested of extractForwardRefs(parsed)) {
+      await renderForward(state, nested, depth + 1);
+    }
+  }
+}
+
+/**
+ * 展开消息中的合并转发, 渲染为带发送者与时间的聊天记录文本。
+ *
+ * 嵌套转发最多展开 `maxDepth` 层, 更深的保留为 `[forward]`; 总长度超过 `maxChars` 时截断。
+ * 没有合并转发或 `maxDepth <= 0` 时返回空字符串。
+ */
+export async function expandForwardMessages(params: {
+  client: OneBotTransport;
+  parsed: CQParseResult;
+  maxDepth: number;
+  maxChars: number;
+  logPrefix?: string;
+}): Promise<string> {
+  const refs = extractForwardRefs(params.parsed);
+  if (!refs.length || params.maxDepth <= 0) {
+    return "";
+  }
+  const state: RenderState = {
+    client: params.client,
+    maxDepth: Math.floor(params.maxDepth),
+    remaining: Math.max(0, Math.floor(params.maxChars)),
+    truncated: false,
+    lines: [],
+    logPrefix: params.logPrefix ?? "[qq]",
+  };
+  for (const ref of refs) {
+    state.lines.push("[Forwarded chat history]");
+    await renderForward(state, ref, 0);
+    if (state.truncated) {
+      state.lines.push("[Chat history truncated]");
+      break;
+    }
+    state.lines.push("[End of forwarded chat history]");
+  }
+  return state.lines.join("\n");
+}
@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { QQConfigSchema } from "./config";
+import { resolveQQGroupSettings } from "./groups";
+
+const config = QQConfigSchema.parse({
+  requireMention: true,
+  keywordTriggers: "hello",
+  historyLimit: 10,
+  blockedUsers: "10001",
+  groups: {
+    "*": { requireMention: false, historyLimit: 5, replyStyle: "mention", blockedUsers: "10002" },
+    "100": { requireMention: true, keywordTriggers: "Hi, 你好", allowedRoles: "Admin,owner", blockedUsers: "10003" },
+    "200": { enabled: false, allowedUsers: "20000-20009" },
+  },
+});
+
+test("群级配置优先于 * 与账号级配置", () => {
+  const settings = resolveQQGroupSettings(config, "100");
+  assert.equal(settings.requireMention, true);
+  assert.deepEqual(settings.keywords, ["hi", "你好"]);
+  assert.equal(settings.historyLimit, 5);
+  assert.equal(settings.replyStyle, "mention");
+  assert.deepEqual([...settings.allowedRoles].sort(), ["admin", "owner"]);
+});
+
+test("未单独配置的群回退到 *, 再回退到账号级", () => {
+  const settings = resolveQQGroupSettings(config, "300");
+  assert.equal(settings.enabled, true);
+  assert.equal(settings.requireMention, false);
+  assert.deepEqual(settings.keywords, ["hello"]);
+  assert.equal(settings.isAllowedUser, null);
+  assert.equal(settings.allowedRoles.size, 0);
+});
+
+test("账号级黑名单在所有群生效, 群级名单追加", () => {
+  const exact = resolveQQGroupSettings(config, "100");
+  assert.equal(exact.isBlocked(10001), true);
+  assert.equal(exact.isBlocked(10003), true);
+  // 群级 blockedUsers 覆盖 * 中的名单, 而不是与之合并
+  assert.equal(exact.isBlocked(10002), false);
+  assert.equal(resolveQQGroupSettings(config, "300").isBlocked(10002), true);
+});
+
+test("enabled 与 allowedUsers 号段", () => {
+  const settings = resolveQQGroupSettings(config, "200");
+  assert.equal(settings.enabled, false);
+  assert.equal(settings.isAllowedUser?.(20005), true);
+  assert.equal(settings.isAllowedUser?.(20010), false);
+});
+
+test("allowedRoles 含未知角色时配置校验失败", () => {
+  assert.equal(QQConfigSchema.safeParse({ groups: { "1": { allowedRoles: "admins" } } }).success, false);
+});
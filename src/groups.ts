@@ -0,0 +1,70 @@
+import { createQQUserMatcher, normalizeGroupRole, type QQGroupRole } from "./access";
+import { splitIdList, type QQConfig, type QQGroupConfig } from "./config";
+
+/**
+ * 某个群合并覆盖配置后的生效设置。
+ */
+export type QQGroupSettings = {
+  groupId: string;
+  enabled: boolean;
+  requireMention: boolean;
+  keywords: string[];
+  isBlocked: (userId: number | string) => boolean;
+  // 未配置 allowedUsers 时为 null, 不限制
+  isAllowedUser: ((userId: number | string) => boolean) | null;
+  // 为空时不限制角色
+  allowedRoles: Set<QQGroupRole>;
+  historyLimit: number;
+  systemPrompt?: string;
+  agentId?: string;
+  replyStyle: NonNullable<QQGroupConfig["replyStyle"]>;
+};
+
+export function buildTriggerKeywords(raw: string): string[] {
+  return raw
+    .split(/[,\n]/g)
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * 解析群的生效设置, 优先级: `groups[群号]` > `groups["*"]` > 账号级配置。
+ *
+ * 账号级 blockedUsers 在所有群生效, 群级名单在其基础上追加。
+ */
+export function resolveQQGroupSettings(config: QQConfig, groupId: string): QQGroupSettings {
+  const exact: QQGroupConfig = config.groups[groupId] ?? {};
+  const fallback: QQGroupConfig = config.groups["*"] ?? {};
+  const pick = <K extends keyof QQGroupConfig>(key: K): QQGroupConfig[K] => exact[key] ?? fallback[key];
+  const allowedUsers = splitIdList(pick("allowedUsers"));
+
+  return {
+    groupId,
+    enabled: pick("enabled") ?? true,
+    requireMention: pick("requireMention") ?? config.requireMention,
+    keywords: buildTriggerKeywords(pick("keywordTriggers") ?? config.keywordTriggers),
+    isBlocked: createQQUserMatcher([...splitIdList(config.blockedUsers), ...splitIdList(pick("blockedUsers"))]),
+    isAllowedUser: allowedUsers.length ? createQQUserMatcher(allowedUsers) : null,
+    allowedRoles: new Set(splitIdList(pick("allowedRoles")).map((role) => normalizeGroupRole(role.toLowerCase()))),
+    historyLimit: Math.max(0, Math.floor(pick("historyLimit") ?? config.historyLimit)),
+    systemPrompt: pick("systemPrompt") || undefined,
+    agentId: pick("agentId") || undefined,
+    replyStyle: pick("replyStyle") ?? "quote",
+  };
+}
+
+/**
+ * 账号配置在连接期间不变, 按群号缓存解析结果。
+ */
+export function createQQGroupSettingsResolver(config: QQConfig): (groupId: number | string) => QQGroupSettings {
+  const cache = new Map<string, QQGroupSettings>();
+  return (groupId) => {
+    const key = String(groupId);
+    let settings = cache.get(key);
+    if (!settings) {
+      settings = resolveQQGroupSettings(config, key);
+      cache.set(key, settings);
+    }
+    return settings;
+  };
+}
@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { GroupHistoryBuffer, type QQHistoryEntry } from "./history";
+
+const entry = (messageId: string, timestamp: number): QQHistoryEntry => ({
+  sender: "u",
+  body: `m${messageId}`,
+  timestamp,
+  messageId,
+});
+
+test("超过上限时丢弃最早的消息, 重复 messageId 不重复记录", () => {
+  const buffer = new GroupHistoryBuffer(2);
+  buffer.record("1", entry("a", 1));
+  buffer.record("1", entry("a", 1));
+  buffer.record("1", entry("b", 2));
+  buffer.record("1", entry("c", 3));
+  assert.deepEqual(
+    buffer.consume("1").map((e) => e.messageId),
+    ["b", "c"],
+  );
+});
+
+test("consume 后清空, 上限为 0 的群不记录", () => {
+  const buffer = new GroupHistoryBuffer((groupId) => (groupId === "1" ? 5 : 0));
+  buffer.record("1", entry("a", 1));
+  buffer.record("2", entry("b", 2));
+  assert.equal(buffer.consume("1").length, 1);
+  assert.equal(buffer.consume("1").length, 0);
+  assert.deepEqual(buffer.knownGroups(), []);
+});
+
+test("remove 移除撤回的消息", () => {
+  const buffer = new GroupHistoryBuffer(5);
+  buffer.record("1", entry("a", 1));
+  buffer.record("1", entry("b", 2));
+  buffer.remove("1", "a");
+  assert.deepEqual(
+    buffer.consume("1").map((e) => e.messageId),
+    ["b"],
+  );
+  buffer.record("1", entry("c", 3));
+  buffer.remove("1", "c");
+  assert.deepEqual(buffer.knownGroups(), []);
+});
+
+test("merge 按 messageId 去重并按时间保留最新的 limit 条", () => {
+  const buffer = new GroupHistoryBuffer(3);
+  buffer.record("1", entry("c", 30));
+  buffer.merge("1", [entry("a", 10), entry("b", 20), entry("c", 30), entry("d", 5)]);
+  assert.deepEqual(
+    buffer.consume("1").map((e) => e.messageId),
+    ["a", "b", "c"],
+  );
+});
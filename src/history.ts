@@ -0,0 +1,143 @@
+import type OneBotTransport from "../libs/onebot/transport";
+import type { OneBotMessageEvent } from "../libs/onebot/types";
+import { parseInboundCQ, toPlainText } from "../libs/cq";
+
+export type QQHistoryEntry = {
+  sender: string;
+  body: string;
+  timestamp: number;
+  messageId?: string;
+};
+
+export function resolveSenderName(event: Pick<OneBotMessageEvent, "sender" | "user_id">): string {
+  const sender = (event.sender ?? {}) as { card?: string; nickname?: string };
+  return String(sender.card || sender.nickname || event.user_id || "");
+}
+
+/**
+ * 群聊上下文缓冲：记录未触发 agent 的群消息，触发时作为前置上下文一并交给 agent。
+ *
+ * 每个群一个定长环形缓冲，超过 `limit` 时丢弃最早的消息；被消费后清空，
+ * 避免同一段聊天在后续触发中重复出现。`limit <= 0` 的群不记录任何内容。
+ * `limit` 可以是按群号解析的函数, 以支持群级覆盖配置。
+ */
+export class GroupHistoryBuffer {
+  private readonly groups = new Map<string, QQHistoryEntry[]>();
+
+  constructor(private readonly limit: number | ((groupId: string) => number)) {}
+
+  public limitFor(groupId: string): number {
+    const limit = typeof this.limit === "function" ? this.limit(groupId) : this.limit;
+    return Math.max(0, Math.floor(limit));
+  }
+
+  public knownGroups(): string[] {
+    return Array.from(this.groups.keys());
+  }
+
+  public record(groupId: string, entry: QQHistoryEntry): void {
+    const limit = this.limitFor(groupId);
+    if (limit <= 0) {
+      return;
+    }
+    const entries = this.groups.get(groupId) ?? [];
+    if (entry.messageId && entries.some((e) => e.messageId === entry.messageId)) {
+      return;
+    }
+    entries.push(entry);
+    if (entries.length > limit) {
+      entries.splice(0, entries.length - limit);
+    }
+    this.groups.set(groupId, entries);
+  }
+
+  public consume(groupId: string): QQHistoryEntry[] {
+    const entries = this.groups.get(groupId) ?? [];
+    this.groups.delete(groupId);
+    return entries;
+  }
+
+  // 消息被撤回时从缓冲中移除, 避免撤回内容仍作为上下文交给 agent。
+  public remove(groupId: string, messageId: string): void {
+    const entries = this.groups.get(groupId);
+    if (!entries) {
+      return;
+    }
+    const rest = entries.filter((entry) => entry.messageId !== messageId);
+    if (rest.length) {
+      this.groups.set(groupId, rest);
+    } else {
+      this.groups.delete(groupId);
+    }
+  }
+
+  public clear(groupId: string): void {
+    this.groups.delete(groupId);
+  }
+
+  // 合并回填结果与已有缓冲, 按 messageId 去重后保留最新的 limit 条。
+  public merge(groupId: string, entries: QQHistoryEntry[]): void {
+    const limit = this.limitFor(groupId);
+    if (limit <= 0 || !entries.length) {
+      return;
+    }
+    const seen = new Set<string>();
+    const merged = [...(this.groups.get(groupId) ?? []), ...entries]
+      .filter((entry) => {
+        if (!entry.messageId) {
+          return true;
+        }
+        if (seen.has(entry.messageId)) {
+          return false;
+        }
+        seen.add(entry.messageId);
+        return true;
+      })
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .slice(-limit);
+    this.groups.set(groupId, merged);
+  }
+}
+
+/**
+ * 断线重连后用 `get_group_msg_history` 回填缓冲，补上断线期间错过的群聊上下文。
+ *
+ * 机器人自己发出的消息不计入；拉取失败只记录日志，保留原有缓冲。
+ */
+export async function backfillGroupHistory(params: {
+  client: OneBotTransport;
+  buffer: GroupHistoryBuffer;
+  groupIds: string[];
+  logPrefix?: string;
+}): Promise<void> {
+  for (const groupId of params.groupIds) {
+    const limit = params.buffer.limitFor(groupId);
+    if (limit <= 0) {
+      continue;
+    }
+    try {
+      const data = await params.client.getGroupMsgHistory(Number(groupId), limit);
+      const entries: QQHistoryEntry[] = [];
+      for (const message of data?.messages ?? []) {
+        if (message.user_id != null && message.user_id === message.self_id) {
+          continue;
+        }
+        const body = toPlainText(
+          parseInboundCQ((message.message as string | unknown[] | undefined) ?? message.raw_message ?? ""),
+        );
+        if (!body) {
+          continue;
+        }
+        entries.push({
+          sender: resolveSenderName(message),
+          body,
+          timestamp: message.time ? message.time * 1000 : Date.now(),
+          messageId: message.message_id != null ? String(message.message_id) : undefined,
+        });
+      }
+      params.buffer.merge(groupId, entries);
+    } catch (error) {
+      console.warn(`${params.logPrefix ?? "[qq]"} history backfill failed group=${groupId}`, error);
+    }
+  }
+}
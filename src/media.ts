@@ -0,0 +1,167 @@
+import { readFile, stat } from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+import type OneBotTransport from "../libs/onebot/transport";
+import type { OneBotFileData } from "../libs/onebot/types";
+import type { CQMediaRef } from "../libs/cq";
+import type { QQConfig } from "./config";
+import { splitIdList } from "./config";
+import { getQQRuntime } from "./runtime";
+
+export type QQInboundMedia = {
+  path: string;
+  contentType?: string;
+};
+
+type LoadedMedia = {
+  buffer: Buffer;
+  contentType?: string;
+  fileName?: string;
+};
+
+function resolveMaxBytes(config: QQConfig): number {
+  const mb = config.mediaMaxMb > 0 ? config.mediaMaxMb : 20;
+  return Math.floor(mb * 1024 * 1024);
+}
+
+function isHttpUrl(value?: string): boolean {
+  return Boolean(value && /^https?:\/\//i.test(value));
+}
+
+async function readLocalMedia(filePath: string, maxBytes: number): Promise<Buffer> {
+  const path = filePath.startsWith("file://") ? fileURLToPath(filePath) : filePath;
+  const info = await stat(path);
+  if (info.size > maxBytes) {
+    throw new Error(`media exceeds ${maxBytes} bytes: ${path}`);
+  }
+  return readFile(path);
+}
+
+// 本地路径只接受 OneBot 动作返回的结果(allowLocal), 不直接信任消息段里的 file 字段。
+async function loadFromReference(
+  value: string,
+  maxBytes: number,
+  fileName?: string,
+  allowLocal = false,
+): Promise<LoadedMedia | null> {
+  if (isHttpUrl(value)) {
+    const fetched = await getQQRuntime().channel.media.fetchRemoteMedia({
+      url: value,
+      maxBytes,
+      filePathHint: fileName,
+    });
+    return { ...fetched, fileName: fetched.fileName ?? fileName };
+  }
+  if (value.startsWith("base64://")) {
+    const buffer = Buffer.from(value.slice("base64://".length), "base64");
+    if (buffer.length > maxBytes) {
+      throw new Error(`media exceeds ${maxBytes} bytes`);
+    }
+    return { buffer, fileName };
+  }
+  if (!allowLocal) {
+    return null;
+  }
+  if (value.startsWith("file://") || value.startsWith("/") || /^[a-z]:[\\/]/i.test(value)) {
+    return { buffer: await readLocalMedia(value, maxBytes), fileName };
+  }
+  return null;
+}
+
+// 段内只有文件 id 时, 通过 get_image/get_record/get_file 向 OneBot 实现换取可下载的地址或内容。
+async function fetchViaAction(client: OneBotTransport, ref: CQMediaRef): Promise<OneBotFileData | null> {
+  const data =
+    ref.type === "image"
+      ? await client.getImage(ref.file ?? ref.value)
+      : ref.type === "record"
+        ? await client.getRecord(ref.file ?? ref.value, "mp3")
+        : await client.getFile(ref.fileId ?? ref.file ?? ref.value);
+  return data ?? null;
+}
+
+async function loadMedia(
+  client: OneBotTransport,
+  ref: CQMediaRef,
+  maxBytes: number,
+): Promise<LoadedMedia | null> {
+  if (ref.url) {
+    const loaded = await loadFromReference(ref.url, maxBytes, ref.name);
+    if (loaded) {
+      return loaded;
+    }
+  }
+  if (ref.file) {
+    const loaded = await loadFromReference(ref.file, maxBytes, ref.name);
+    if (loaded) {
+      return loaded;
+    }
+  }
+
+  const data = await fetchViaAction(client, ref);
+  if (!data) {
+    return null;
+  }
+  const fileName = data.file_name || ref.name;
+  if (data.base64) {
+    return loadFromReference(`base64://${data.base64}`, maxBytes, fileName);
+  }
+  if (data.url && isHttpUrl(data.url)) {
+    return loadFromReference(data.url, maxBytes, fileName);
+  }
+  if (data.file) {
+    return loadFromReference(data.file, maxBytes, fileName, true);
+  }
+  return null;
+}
+
+/**
+ * 下载入站消息引用的图片/文件/语音, 并落盘到 runtime 的媒体目录供 agent 读取。
+ *
+ * - 仅处理 `mediaInboundTypes` 允许的段类型, 单个媒体受 `mediaMaxMb` 限制
+ * - 段内有 url 时直接下载, 只有文件 id 时通过 get_image/get_record/get_file 换取
+ * - 单个媒体失败只记录日志并跳过, 不影响文本消息继续分发
+ */
+export async function resolveInboundMedia(params: {
+  client: OneBotTransport;
+  refs: CQMediaRef[];
+  config: QQConfig;
+  logPrefix?: string;
+}): Promise<QQInboundMedia[]> {
+  const allowedTypes = new Set(splitIdList(params.config.mediaInboundTypes).map((t) => t.toLowerCase()));
+  const maxBytes = resolveMaxBytes(params.config);
+  const runtime = getQQRuntime();
+  const out: QQInboundMedia[] = [];
+
+  for (const ref of params.refs) {
+    if (!allowedTypes.has(ref.type)) {
+      continue;
+    }
+    if (ref.size && ref.size > maxBytes) {
+      console.warn(
+        `${params.logPrefix ?? "[qq]"} skip inbound ${ref.type}: size ${ref.size} exceeds ${maxBytes} bytes`,
+      );
+      continue;
+    }
+    try {
+      const loaded = await loadMedia(params.client, ref, maxBytes);
+      if (!loaded) {
+        continue;
+      }
+      const contentType = await runtime.media.detectMime({
+        buffer: loaded.buffer,
+        headerMime: loaded.contentType,
+        filePath: loaded.fileName,
+      });
+      const saved = await runtime.channel.media.saveMediaBuffer(
+        loaded.buffer,
+        contentType,
+        "inbound",
+        maxBytes,
+        loaded.fileName,
+      );
+      out.push({ path: saved.path, contentType: saved.contentType ?? contentType });
+    } catch (error) {
+      console.warn(`${params.logPrefix ?? "[qq]"} inbound ${ref.type} download failed`, error);
+    }
+  }
+  return out;
+}
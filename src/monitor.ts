@@ -1,19 +1,39 @@
-import type { OpenClawConfig, ReplyPayload } from "openclaw/plugin-sdk";
+import { buildAgentMediaPayload, type OpenClawConfig, type ReplyPayload } from "openclaw/plugin-sdk";
 import type { OneBotMessageEvent } from "../libs/onebot/types";
-import OneBotWsClient from "../libs/onebot/client";
-import { extractMentions, extractReplyId, parseInboundCQ, toPlainText } from "../libs/cq";
+import type OneBotTransport from "../libs/onebot/transport";
+import {
+  extractMediaRefs,
+  extractMentions,
+  extractReplyId,
+  parseInboundCQ,
+  toPlainText,
+  type CQParseResult,
+} from "../libs/cq";
 import type { ResolvedQQAccount } from "./accounts";
 import { CHANNEL_ID, CHANNEL_PROVIDER } from "./constants";
 import { getQQRuntime } from "./runtime";
 import { dispatchQQMessage } from "./send";
 import { splitIdList } from "./config";
-
-function buildTriggerKeywords(raw: string): string[] {
-  return raw
-    .split(/[,\n]/g)
-    .map((entry) => entry.trim().toLowerCase())
-    .filter(Boolean);
-}
+import { resolveInboundMedia, type QQInboundMedia } from "./media";
+import {
+  backfillGroupHistory,
+  GroupHistoryBuffer,
+  resolveSenderName,
+  type QQHistoryEntry,
+} from "./history";
+import { createQQNoticeRouter } from "./notice";
+import {
+  createQQMemberCache,
+  createQQUserMatcher,
+  isGroupSenderPermitted,
+  replyWithPairingCode,
+  resolveDmAccess,
+  type QQMemberCache,
+} from "./access";
+import { createQQGroupSettingsResolver, type QQGroupSettings } from "./groups";
+import { createQQCommandRouter } from "./commands";
+import { QQMessageCache, resolveQuotedMessage, type QQQuotedMessage } from "./quote";
+import { expandForwardMessages } from "./forward";
 
 function isTriggeredInGroup(params: {
   plainText: string;
@@ -36,25 +56,273 @@ function isTriggeredInGroup(params: {
   return params.keywords.some((kw) => kw.length > 0 && text.includes(kw));
 }
 
-function buildInboundTarget(event: OneBotMessageEvent): string {
-  if (event.message_type === "group" && event.group_id != null) {
-    return `group:${event.group_id}`;
+// 为消息中 @ 到的其他成员解析显示名: 优先消息段自带的 name, 群聊中再查群名片/昵称。
+async function resolveMentionNames(params: {
+  parsed: CQParseResult;
+  selfId: string;
+  groupId?: number;
+  members: QQMemberCache;
+}): Promise<Map<string, string>> {
+  const names = new Map<string, string>();
+  for (const seg of params.parsed.segments) {
+    if (seg.type !== "at") {
+      continue;
+    }
+    const qq = String(seg.data.qq ?? "").trim();
+    if (!qq || qq === params.selfId || names.has(qq)) {
+      continue;
+    }
+    if (qq === "all") {
+      names.set(qq, "全体成员");
+      continue;
+    }
+    const name =
+      String(seg.data.name ?? "").trim() ||
+      (params.groupId != null ? await params.members.resolveName(params.groupId, qq) : undefined);
+    if (name) {
+      names.set(qq, name);
+    }
   }
-  return `private:${event.user_id}`;
+  return names;
 }
 
+/**
+ * 交给 agent 的一轮对话输入, 入站消息与通知产生的合成消息共用。
+ */
+export type QQAgentTurn = {
+  isGroup: boolean;
+  groupId?: number;
+  senderId: string;
+  senderName: string;
+  body: string;
+  timestamp: number;
+  // 群聊中回复时引用的消息 id
+  replyToId?: string;
+  // 用户引用回复的原消息
+  quote?: QQQuotedMessage;
+  // 消息是否 @ 了机器人(含 @全体成员)
+  wasMentioned?: boolean;
+  // 消息中 @ 到的其他用户, 不含机器人自身
+  mentions?: Array<{ id: string; name?: string }>;
+  media?: QQInboundMedia[];
+  inboundHistory?: QQHistoryEntry[];
+  // 频道命令层识别出的原生命令名(如 reset), 以已授权命令交给 OpenClaw 处理
+  command?: string;
+};
+
+// 群级 agentId 覆盖路由结果; 会话键形如 `agent:<agentId>:...`, 替换前缀以隔离不同 agent 的会话。
+function applyAgentBinding<T extends { agentId: string; sessionKey: string }>(route: T, agentId?: string): T {
+  const bound = agentId?.trim().toLowerCase();
+  if (!bound || bound === route.agentId) {
+    return route;
+  }
+  const prefix = `agent:${route.agentId}:`;
+  return {
+    ...route,
+    agentId: bound,
+    sessionKey: route.sessionKey.startsWith(prefix)
+      ? `agent:${bound}:${route.sessionKey.slice(prefix.length)}`
+      : route.sessionKey,
+  };
+}
+
+/**
+ * 将一轮输入分发给 agent：解析路由、记录会话, 并把 agent 的回复发回原会话。
+ */
+async function dispatchAgentTurn(params: {
+  client: OneBotTransport;
+  cfg: OpenClawConfig;
+  account: ResolvedQQAccount;
+  turn: QQAgentTurn;
+  group?: QQGroupSettings;
+  logPrefix?: string;
+}): Promise<void> {
+  const runtime = getQQRuntime();
+  const { turn, group } = params;
+  const from = turn.isGroup ? String(turn.groupId) : `qq:user:${turn.senderId}`;
+  const route = applyAgentBinding(
+    runtime.channel.routing.resolveAgentRoute({
+      cfg: params.cfg,
+      channel: CHANNEL_ID,
+      accountId: params.account.accountId,
+      peer: {
+        kind: turn.isGroup ? "group" : "direct",
+        id: from,
+      },
+    }),
+    group?.agentId,
+  );
+  const replyStyle = turn.isGroup ? (group?.replyStyle ?? "quote") : "plain";
+  const to = turn.isGroup ? `group:${turn.groupId}` : `private:${turn.senderId}`;
+  const deliver = async (payload: ReplyPayload) => {
+    const mediaUrls = payload.mediaUrls?.length
+      ? payload.mediaUrls
+      : payload.mediaUrl
+        ? [payload.mediaUrl]
+        : [];
+    if ((!payload.text || !payload.text.trim()) && mediaUrls.length === 0) {
+      return;
+    }
+    await dispatchQQMessage({
+      client: params.client,
+      to,
+      text: payload.text ?? "",
+      replyToId: replyStyle === "quote" ? turn.replyToId : undefined,
+      mentions: replyStyle === "mention" ? [turn.senderId] : undefined,
+      config: params.account.config,
+      media: mediaUrls,
+    });
+  };
+  const { dispatcher, replyOptions } = runtime.channel.reply.createReplyDispatcherWithTyping({
+    deliver,
+  });
+
+  const inboundHistory = turn.inboundHistory ?? [];
+  const ctxPayload = runtime.channel.reply.finalizeInboundContext({
+    Provider: CHANNEL_PROVIDER,
+    Channel: CHANNEL_ID,
+    From: from,
+    To: `${CHANNEL_PROVIDER}:bot`,
+    Body: turn.body,
+    RawBody: turn.body,
+    CommandBody: turn.body,
+    CommandAuthorized: turn.command != null,
+    CommandSource: turn.command != null ? "native" : undefined,
+    ReplyToId: turn.quote?.id,
+    ReplyToBody: turn.quote?.body,
+    ReplyToSender: turn.quote?.sender,
+    ReplyToIsQuote: turn.quote ? true : undefined,
+    SenderId: turn.senderId,
+    SenderName: turn.senderName,
+    SessionKey: route.sessionKey,
+    AccountId: route.accountId,
+    ChatType: turn.isGroup ? "group" : "direct",
+    Timestamp: turn.timestamp,
+    InboundHistory: inboundHistory.length
+      ? inboundHistory.map(({ sender, body, timestamp: at }) => ({ sender, body, timestamp: at }))
+      : undefined,
+    GroupSystemPrompt: group?.systemPrompt,
+    WasMentioned: turn.isGroup ? turn.wasMentioned : undefined,
+    // 结构化的被@用户(不含机器人自身), 同时以附加上下文的形式交给 agent
+    MentionedUserIds: turn.mentions?.length ? turn.mentions.map((entry) => entry.id) : undefined,
+    MentionedUsers: turn.mentions?.length
+      ? turn.mentions.map(({ id, name }) => ({ id, name }))
+      : undefined,
+    UntrustedContext: turn.mentions?.length
+      ? [
+          `Mentioned users: ${turn.mentions
+            .map((entry) => (entry.name ? `${entry.name} (qq:${entry.id})` : `qq:${entry.id}`))
+            .join(", ")}`,
+        ]
+      : undefined,
+    Surface: CHANNEL_ID,
+    OriginatingChannel: CHANNEL_ID,
+    OriginatingTo: from,
+    ...buildAgentMediaPayload(turn.media ?? []),
+  });
+
+  await runtime.channel.session.recordInboundSession({
+    storePath: runtime.channel.session.resolveStorePath(
+      (params.cfg as { session?: { store?: string } }).session?.store,
+      {
+        agentId: route.agentId,
+      },
+    ),
+    sessionKey: (ctxPayload as { SessionKey?: string }).SessionKey ?? route.sessionKey,
+    ctx: ctxPayload,
+    updateLastRoute: undefined,
+    onRecordError: (err) => {
+      console.warn(`${params.logPrefix ?? "[qq]"} session record error`, err);
+    },
+  });
+
+  await runtime.channel.reply.dispatchReplyFromConfig({
+    ctx: ctxPayload,
+    cfg: params.cfg,
+    dispatcher,
+    replyOptions,
+  });
+}
+
+export type QQMessageInterceptor = (event: OneBotMessageEvent, plainText: string) => Promise<boolean>;
+
 export function attachQQMessageHandler(params: {
-  client: OneBotWsClient;
+  client: OneBotTransport;
   cfg: OpenClawConfig;
   account: ResolvedQQAccount;
   logPrefix?: string;
+  interceptors?: QQMessageInterceptor[];
 }): () => void {
-  const runtime = getQQRuntime();
-  const blockedUsers = new Set(splitIdList(params.account.config.blockedUsers));
+  const isBlocked = createQQUserMatcher(splitIdList(params.account.config.blockedUsers));
+  const members = createQQMemberCache(params.client);
   const allowedGroups = new Set(splitIdList(params.account.config.allowedGroups));
-  const keywords = buildTriggerKeywords(params.account.config.keywordTriggers);
+  const groupSettings = createQQGroupSettingsResolver(params.account.config);
+  const isGroupAllowed = (groupId: number | string) =>
+    (allowedGroups.size === 0 || allowedGroups.has(String(groupId))) && groupSettings(groupId).enabled;
+  const history = new GroupHistoryBuffer((groupId) => groupSettings(groupId).historyLimit);
+  const messages = new QQMessageCache();
+  const dispatchToAgent = (turn: QQAgentTurn) =>
+    dispatchAgentTurn({
+      client: params.client,
+      cfg: params.cfg,
+      account: params.account,
+      turn,
+      group: turn.isGroup ? groupSettings(String(turn.groupId)) : undefined,
+      logPrefix: params.logPrefix,
+    });
+  const notices = createQQNoticeRouter({
+    client: params.client,
+    config: params.account.config,
+    history,
+    isGroupAllowed,
+    isSenderPermitted: async (event) => {
+      const senderId = String(event.user_id);
+      if (isBlocked(senderId)) {
+        return false;
+      }
+      if (event.group_id == null) {
+        return (await resolveDmAccess({ account: params.account, senderId })) === "allow";
+      }
+      const group = groupSettings(event.group_id);
+      return !group.isBlocked(senderId) && (await isGroupSenderPermitted({ group, event, members }));
+    },
+    dispatchToAgent,
+    logPrefix: params.logPrefix,
+  });
+  const commands = createQQCommandRouter({
+    client: params.client,
+    account: params.account,
+    members,
+    mute: notices.mute,
+    unmute: notices.unmute,
+    dispatchToAgent,
+    logPrefix: params.logPrefix,
+  });
 
-  return params.client.on("message", async (event) => {
+  // 处理器可能在连接前挂载, 首次 open 不算重连, 之后再收到 open 才回填。
+  let connectedOnce = params.client.getState() === "open";
+  const offOpen = params.client.on("open", () => {
+    if (!connectedOnce) {
+      connectedOnce = true;
+      return;
+    }
+    if (!params.account.config.historyBackfill) {
+      return;
+    }
+    const groupIds = new Set([
+      ...history.knownGroups(),
+      ...allowedGroups,
+      ...Object.keys(params.account.config.groups).filter((id) => id !== "*"),
+    ]);
+    void backfillGroupHistory({
+      client: params.client,
+      buffer: history,
+      groupIds: Array.from(groupIds).filter(isGroupAllowed),
+      logPrefix: params.logPrefix,
+    });
+  });
+
+  const offMessage = params.client.on("message", async (event) => {
     try {
       if (!event.user_id || (event.message_type !== "private" && event.message_type !== "group")) {
         return;
@@ -68,102 +336,157 @@ export function attachQQMessageHandler(params: {
         return;
       }
 
+      messages.remember(event, plainText);
+
       const senderId = String(event.user_id);
-      if (blockedUsers.has(senderId)) {
+      if (isBlocked(senderId)) {
         return;
       }
+      for (const intercept of params.interceptors ?? []) {
+        if (await intercept(event, plainText)) {
+          return;
+        }
+      }
 
       const isGroup = event.message_type === "group";
       if (isGroup && event.group_id == null) {
         return;
       }
-      if (isGroup && allowedGroups.size > 0 && !allowedGroups.has(String(event.group_id))) {
+      if (!isGroup) {
+        const access = await resolveDmAccess({ account: params.account, senderId });
+        if (access === "pairing") {
+          await replyWithPairingCode({
+            client: params.client,
+            account: params.account,
+            senderId,
+            senderName: resolveSenderName(event),
+            logPrefix: params.logPrefix,
+          });
+        }
+        if (access !== "allow") {
+          return;
+        }
+      }
+      const group = isGroup ? groupSettings(event.group_id!) : undefined;
+      if (group && (!isGroupAllowed(group.groupId) || group.isBlocked(senderId))) {
+        return;
+      }
+
+      const senderName = resolveSenderName(event);
+      const timestamp = event.time ? event.time * 1000 : Date.now();
+      const recordHistory = () => {
+        history.record(group!.groupId, {
+          sender: senderName,
+          body: plainText,
+          timestamp,
+          messageId: event.message_id != null ? String(event.message_id) : undefined,
+        });
+      };
+      // 未通过群级用户/角色限制的发送者既不能触发 agent 也不能使用命令, 消息只作为上下文。
+      if (group && !(await isGroupSenderPermitted({ group, event, members }))) {
+        recordHistory();
+        return;
+      }
+      const muted = group ? notices.isMuted(group.groupId) : false;
+      if (await commands.handleCommand({ event, plainText, group, muted, senderId, senderName, timestamp })) {
         return;
       }
 
       const mentions = extractMentions(parsed);
       const replyId = extractReplyId(parsed);
+      // 禁言期间无法回复, 触发消息也只记入上下文缓冲。
       if (
-        isGroup &&
-        !isTriggeredInGroup({
-          plainText,
-          mentions,
-          replyId,
-          selfId: event.self_id,
-          requireMention: params.account.config.requireMention,
-          keywords,
-        })
+        group &&
+        (muted ||
+          !isTriggeredInGroup({
+            plainText,
+            mentions,
+            replyId,
+            selfId: event.self_id,
+            requireMention: group.requireMention,
+            keywords: group.keywords,
+          }))
       ) {
+        recordHistory();
         return;
       }
+      const inboundHistory = group ? history.consume(group.groupId) : [];
 
-      const from = isGroup ? String(event.group_id) : `qq:user:${senderId}`;
-      const route = runtime.channel.routing.resolveAgentRoute({
-        cfg: params.cfg,
-        channel: CHANNEL_ID,
-        accountId: params.account.accountId,
-        peer: {
-          kind: isGroup ? "group" : "direct",
-          id: from,
-        },
-      });
-      const to = buildInboundTarget(event);
-      const deliver = async (payload: ReplyPayload) => {
-        if (!payload.text || !payload.text.trim()) {
-          return;
-        }
-        await dispatchQQMessage({
-          client: params.client,
-          to,
-          text: payload.text,
-          replyToId: isGroup ? String(event.message_id ?? "") : undefined,
-        });
-      };
-      const { dispatcher, replyOptions } = runtime.channel.reply.createReplyDispatcherWithTyping({
-        deliver,
+      // 去掉对机器人自身的 @, 其余 @ 渲染为昵称, 避免把裸 QQ 号交给 agent。
+      const selfId = String(event.self_id);
+      const mentionNames = await resolveMentionNames({
+        parsed,
+        selfId,
+        groupId: event.group_id,
+        members,
       });
-
-      const ctxPayload = runtime.channel.reply.finalizeInboundContext({
-        Provider: CHANNEL_PROVIDER,
-        Channel: CHANNEL_ID,
-        From: from,
-        To: `${CHANNEL_PROVIDER}:bot`,
-        Body: plainText,
-        RawBody: plainText,
-        SenderId: senderId,
-        SenderName: String((event.sender as { nickname?: string } | undefined)?.nickname ?? ""),
-        SessionKey: route.sessionKey,
-        AccountId: route.accountId,
-        ChatType: isGroup ? "group" : "direct",
-        Timestamp: event.time ? event.time * 1000 : Date.now(),
-        Surface: CHANNEL_ID,
-        OriginatingChannel: CHANNEL_ID,
-        OriginatingTo: from,
+      const text = toPlainText(parsed, { omitMentions: [selfId], mentionNames });
+      const transcript = await expandForwardMessages({
+        client: params.client,
+        parsed,
+        maxDepth: params.account.config.forwardExpandDepth,
+        maxChars: params.account.config.forwardExpandMaxChars,
+        logPrefix: params.logPrefix,
       });
+      // 只 @ 了机器人而没有其它内容时给出占位说明, 不把裸 `@QQ号` 交给 agent
+      const body = [text, transcript].filter(Boolean).join("\n\n") || "[mentioned you without a message]";
+      const quote = replyId
+        ? await resolveQuotedMessage({
+            client: params.client,
+            cache: messages,
+            messageId: replyId,
+            logPrefix: params.logPrefix,
+          })
+        : null;
 
-      await runtime.channel.session.recordInboundSession({
-        storePath: runtime.channel.session.resolveStorePath(
-          (params.cfg as { session?: { store?: string } }).session?.store,
-          {
-            agentId: route.agentId,
-          },
-        ),
-        sessionKey: (ctxPayload as { SessionKey?: string }).SessionKey ?? route.sessionKey,
-        ctx: ctxPayload,
-        updateLastRoute: undefined,
-        onRecordError: (err) => {
-          console.warn(`${params.logPrefix ?? "[qq]"} session record error`, err);
-        },
+      // 只为真正触发 agent 的消息下载媒体, 避免群聊里的图片全部落盘。
+      const media = await resolveInboundMedia({
+        client: params.client,
+        refs: extractMediaRefs(parsed),
+        config: params.account.config,
+        logPrefix: params.logPrefix,
       });
 
-      await runtime.channel.reply.dispatchReplyFromConfig({
-        ctx: ctxPayload,
-        cfg: params.cfg,
-        dispatcher,
-        replyOptions,
+      await dispatchToAgent({
+        isGroup,
+        groupId: event.group_id,
+        senderId,
+        senderName,
+        body,
+        timestamp,
+        replyToId: isGroup ? String(event.message_id ?? "") : undefined,
+        quote: quote ?? undefined,
+        wasMentioned: mentions.includes(selfId) || mentions.includes("all"),
+        mentions: mentions
+          .filter((id) => id !== selfId && id !== "all")
+          .filter((id, index, list) => list.indexOf(id) === index)
+          .map((id) => ({ id, name: mentionNames.get(id) })),
+        media,
+        inboundHistory,
       });
     } catch (error) {
       console.error(`${params.logPrefix ?? "[qq]"} inbound error`, error);
     }
   });
+
+  const offNotice = params.client.on("notice", async (event) => {
+    try {
+      if (
+        (event.notice_type === "group_admin" || event.notice_type === "group_decrease") &&
+        event.group_id != null &&
+        event.user_id != null
+      ) {
+        members.invalidate(event.group_id, event.user_id);
+      }
+      await notices.handleNotice(event);
+    } catch (error) {
+      console.error(`${params.logPrefix ?? "[qq]"} notice error`, error);
+    }
+  });
+
+  return () => {
+    offOpen();
+    offMessage();
+    offNotice();
+  };
 }
@@ -0,0 +1,206 @@
+import type OneBotTransport from "../libs/onebot/transport";
+import type { OneBotNoticeEvent } from "../libs/onebot/types";
+import type { QQConfig } from "./config";
+import type { GroupHistoryBuffer } from "./history";
+import type { QQAgentTurn } from "./monitor";
+import { dispatchQQMessage } from "./send";
+
+function renderNoticeTemplate(template: string, event: OneBotNoticeEvent): string {
+  return template
+    .replace(/\{user_id\}/g, String(event.user_id ?? ""))
+    .replace(/\{group_id\}/g, String(event.group_id ?? ""));
+}
+
+/**
+ * 通知事件路由。
+ *
+ * - `notify/poke`: 被戳时按 `pokeMode` 回复模板或交给 agent
+ * - `group_increase`: 新成员入群时按 `welcomeMode` 欢迎
+ * - `group_ban`: 记录机器人自身被禁言的群及解除时间, 以及全员禁言(`user_id` 为 0), 禁言期间不再回复
+ * - `group_decrease` (kick_me): 机器人被踢出时清理该群的上下文缓冲
+ * - `group_recall`: 从上下文缓冲中移除被撤回的消息
+ */
+export function createQQNoticeRouter(params: {
+  client: OneBotTransport;
+  config: QQConfig;
+  history: GroupHistoryBuffer;
+  isGroupAllowed: (groupId: string) => boolean;
+  // 与消息触发相同的 dmPolicy / blockedUsers / 群级发送者检查, 未通过的通知不作回应
+  isSenderPermitted: (event: OneBotNoticeEvent) => Promise<boolean>;
+  dispatchToAgent: (turn: QQAgentTurn) => Promise<void>;
+  logPrefix?: string;
+}): {
+  isMuted: (groupId: number | string) => boolean;
+  mute: (groupId: number | string, durationMs: number) => void;
+  unmute: (groupId: number | string) => void;
+  handleNotice: (event: OneBotNoticeEvent) => Promise<void>;
+} {
+  const { client, config, history } = params;
+  const logPrefix = params.logPrefix ?? "[qq]";
+  // groupId -> 解除时间戳(ms); 命令静音与通知带来的禁言分开记录, 解除时只清理各自设置的状态
+  const commandMutedUntil = new Map<string, number>();
+  const bannedUntil = new Map<string, number>();
+  // 全员禁言没有时长, 持续到收到对应的解除通知
+  const wholeBanned = new Set<string>();
+
+  const isPending = (store: Map<string, number>, key: string): boolean => {
+    const until = store.get(key);
+    if (until == null) {
+      return false;
+    }
+    if (until <= Date.now()) {
+      store.delete(key);
+      return false;
+    }
+    return true;
+  };
+
+  const isMuted = (groupId: number | string): boolean => {
+    const key = String(groupId);
+    // 逐个检查以便顺带清理过期项
+    const banned = isPending(bannedUntil, key);
+    const commandMuted = isPending(commandMutedUntil, key);
+    return wholeBanned.has(key) || banned || commandMuted;
+  };
+
+  // 群管理员通过命令让机器人暂时静音, 与被禁言分开记录, 解除禁言不会取消命令静音。
+  const mute = (groupId: number | string, durationMs: number): void => {
+    commandMutedUntil.set(String(groupId), Date.now() + durationMs);
+  };
+
+  const unmute = (groupId: number | string): void => {
+    commandMutedUntil.delete(String(groupId));
+  };
+
+  const respond = async (
+    mode: QQConfig["pokeMode"],
+    template: string,
+    event: OneBotNoticeEvent,
+    describe: string,
+    mentionUser: boolean,
+  ): Promise<void> => {
+    if (mode === "off" || !(await params.isSenderPermitted(event))) {
+      return;
+    }
+    const isGroup = event.group_id != null;
+    const senderId = String(event.user_id);
+    if (mode === "template") {
+      const text = renderNoticeTemplate(template, event).trim();
+      if (!text) {
+        return;
+      }
+      await dispatchQQMessage({
+        client,
+        to: isGroup ? `group:${event.group_id}` : `private:${senderId}`,
+        text,
+        mentions: isGroup && mentionUser ? [senderId] : undefined,
+        config,
+      });
+      return;
+    }
+    if (mode === "agent") {
+      await params.dispatchToAgent({
+        isGroup,
+        groupId: event.group_id,
+        senderId,
+        senderName: senderId,
+        body: `[notice] ${describe}`,
+        timestamp: event.time ? event.time * 1000 : Date.now(),
+      });
+    }
+  };
+
+  const handleNotice = async (event: OneBotNoticeEvent): Promise<void> => {
+    const groupId = event.group_id != null ? String(event.group_id) : null;
+    if (groupId && !params.isGroupAllowed(groupId)) {
+      return;
+    }
+    const isSelf = event.user_id != null && event.user_id === event.self_id;
+
+    switch (event.notice_type) {
+      case "notify": {
+        const targetId = (event as { target_id?: number }).target_id;
+        if (event.sub_type !== "poke" || targetId !== event.self_id || !event.user_id || isSelf) {
+          return;
+        }
+        if (groupId && isMuted(groupId)) {
+          return;
+        }
+        await respond(config.pokeMode, config.pokeTemplate, event, `${event.user_id} poked you`, false);
+        return;
+      }
+      case "group_increase": {
+        if (!groupId || !event.user_id) {
+          return;
+        }
+        if (isSelf) {
+          console.log(`${logPrefix} joined group=${groupId}`);
+          return;
+        }
+        if (isMuted(groupId)) {
+          return;
+        }
+        await respond(
+          config.welcomeMode,
+          config.welcomeTemplate,
+          event,
+          `${event.user_id} joined the group`,
+          true,
+        );
+        return;
+      }
+      case "group_ban": {
+        if (!groupId) {
+          return;
+        }
+        // user_id 为 0 表示全员禁言
+        if (event.user_id === 0) {
+          if (event.sub_type === "ban") {
+            wholeBanned.add(groupId);
+            console.warn(`${logPrefix} whole group muted group=${groupId}`);
+          } else {
+            wholeBanned.delete(groupId);
+            console.log(`${logPrefix} whole group unmuted group=${groupId}`);
+          }
+          return;
+        }
+        if (!isSelf) {
+          return;
+        }
+        const duration = Number((event as { duration?: number }).duration ?? 0);
+        if (event.sub_type === "ban" && duration > 0) {
+          bannedUntil.set(groupId, Date.now() + duration * 1000);
+          console.warn(`${logPrefix} muted in group=${groupId} duration=${duration}s`);
+        } else {
+          bannedUntil.delete(groupId);
+          console.log(`${logPrefix} unmuted in group=${groupId}`);
+        }
+        return;
+      }
+      case "group_decrease": {
+        if (!groupId || event.sub_type !== "kick_me") {
+          return;
+        }
+        console.warn(
+          `${logPrefix} kicked from group=${groupId} operator=${(event as { operator_id?: number }).operator_id ?? "?"}`,
+        );
+        commandMutedUntil.delete(groupId);
+        bannedUntil.delete(groupId);
+        wholeBanned.delete(groupId);
+        history.clear(groupId);
+        return;
+      }
+      case "group_recall": {
+        const messageId = (event as { message_id?: number | string }).message_id;
+        if (groupId && messageId != null) {
+          history.remove(groupId, String(messageId));
+        }
+        return;
+      }
+      default:
+        return;
+    }
+  };
+
+  return { isMuted, mute, unmute, handleNotice };
+}
@@ -0,0 +1,131 @@
+import {
+  DEFAULT_ACCOUNT_ID,
+  mergeAllowFromEntries,
+  promptAccountId,
+  type ChannelOnboardingAdapter,
+  type OpenClawConfig,
+} from "openclaw/plugin-sdk";
+import {
+  listQQAccountIds,
+  patchQQAccountConfig,
+  resolveDefaultQQAccountId,
+  resolveQQAccount,
+} from "./accounts";
+import { normalizeQQUserId } from "./access";
+import { splitIdList } from "./config";
+import { CHANNEL_ID } from "./constants";
+
+type WizardPrompter = Parameters<ChannelOnboardingAdapter["configure"]>[0]["prompter"];
+
+const LABEL = "PinguClaw QQ";
+
+// 询问机器人主人的 QQ 号并写入 allowedUsers, quickstart 时由向导强制调用。
+async function promptOwnerAllowFrom(params: {
+  cfg: OpenClawConfig;
+  prompter: WizardPrompter;
+  accountId?: string;
+}): Promise<OpenClawConfig> {
+  const accountId = params.accountId ?? DEFAULT_ACCOUNT_ID;
+  const account = resolveQQAccount({ cfg: params.cfg, accountId });
+  const owner = await params.prompter.text({
+    message: "Your QQ number (allowed to DM the bot)",
+    placeholder: "123456789",
+    validate: (value) => (/^\d{5,12}$/.test(normalizeQQUserId(value)) ? undefined : "Enter a QQ number"),
+  });
+  const allowedUsers = mergeAllowFromEntries(splitIdList(account.config.allowedUsers), [
+    normalizeQQUserId(owner),
+  ]);
+  return patchQQAccountConfig(params.cfg, accountId, { allowedUsers: allowedUsers.join(",") });
+}
+
+export const qqOnboardingAdapter: ChannelOnboardingAdapter = {
+  channel: CHANNEL_ID,
+  getStatus: async ({ cfg }) => {
+    const configured = Boolean((cfg.channels as Record<string, unknown> | undefined)?.[CHANNEL_ID]);
+    return {
+      channel: CHANNEL_ID,
+      configured,
+      statusLines: [`${LABEL}: ${configured ? "configured" : "needs OneBot connection"}`],
+      selectionHint: configured ? "configured" : "OneBot v11 (NapCat / LLOneBot / go-cqhttp)",
+    };
+  },
+  configure: async ({ cfg, prompter, accountOverrides, shouldPromptAccountIds, forceAllowFrom }) => {
+    const defaultAccountId = resolveDefaultQQAccountId(cfg);
+    let accountId = accountOverrides[CHANNEL_ID] ?? defaultAccountId;
+    if (shouldPromptAccountIds) {
+      accountId = await promptAccountId({
+        cfg,
+        prompter,
+        label: LABEL,
+        currentId: accountId,
+        listAccountIds: listQQAccountIds,
+        defaultAccountId,
+      });
+    }
+    const account = resolveQQAccount({ cfg, accountId });
+
+    const mode = await prompter.select({
+      message: "OneBot connection mode",
+      options: [
+        { value: "forward", label: "Forward WebSocket", hint: "plugin connects to OneBot" },
+        { value: "reverse", label: "Reverse WebSocket", hint: "OneBot connects to plugin" },
+        { value: "http", label: "HTTP API + HTTP POST" },
+      ],
+      initialValue: account.config.connectionMode,
+    });
+
+    const patch: Record<string, unknown> = { connectionMode: mode, enabled: true };
+    if (mode === "forward") {
+      patch.wsUrl = (
+        await prompter.text({
+          message: "OneBot WebSocket URL",
+          initialValue: account.config.wsUrl,
+          validate: (value) => (/^wss?:\/\//i.test(value.trim()) ? undefined : "Must start with ws:// or wss://"),
+        })
+      ).trim();
+    } else if (mode === "reverse") {
+      patch.reversePort = Number(
+        await prompter.text({
+          message: "Reverse WebSocket listen port",
+          initialValue: String(account.config.reversePort),
+          validate: (value) => {
+            const port = Number(value);
+            return Number.isInteger(port) && port > 0 && port <= 65535 ? undefined : "Enter a valid TCP port";
+          },
+        }),
+      );
+    } else {
+      patch.httpApiUrl = (
+        await prompter.text({
+          message: "OneBot HTTP API URL",
+          initialValue: account.config.httpApiUrl,
+          validate: (value) => (/^https?:\/\//i.test(value.trim()) ? undefined : "Must start with http:// or https://"),
+        })
+      ).trim();
+    }
+    // 令牌来自文件或环境变量时不询问, 也不把解析出的令牌写进配置
+    if (!account.config.accessTokenFile && !account.config.accessTokenEnv) {
+      const accessToken = await prompter.text({
+        message: "OneBot access token (leave empty if none)",
+        initialValue: account.config.accessToken ?? "",
+      });
+      patch.accessToken = accessToken.trim() || undefined;
+    }
+
+    let next = patchQQAccountConfig(cfg, accountId, patch);
+    if (forceAllowFrom) {
+      next = await promptOwnerAllowFrom({ cfg: next, prompter, accountId });
+    }
+    return { cfg: next, accountId };
+  },
+  dmPolicy: {
+    label: LABEL,
+    channel: CHANNEL_ID,
+    policyKey: `channels.${CHANNEL_ID}.dmPolicy`,
+    allowFromKey: `channels.${CHANNEL_ID}.allowedUsers`,
+    getCurrent: (cfg) => resolveQQAccount({ cfg }).config.dmPolicy,
+    setPolicy: (cfg, policy) => patchQQAccountConfig(cfg, DEFAULT_ACCOUNT_ID, { dmPolicy: policy }),
+    promptAllowFrom: promptOwnerAllowFrom,
+  },
+  disable: (cfg) => patchQQAccountConfig(cfg, DEFAULT_ACCOUNT_ID, { enabled: false }),
+};
@@ -0,0 +1,135 @@
+import type OneBotTransport from "../libs/onebot/transport";
+
+/**
+ * 账号探测结果, 记录在账号状态快照的 `probe` 字段中。
+ */
+export type QQProbe = {
+  ok: boolean;
+  error?: string;
+  at: number;
+  elapsedMs: number;
+  selfId?: string;
+  nickname?: string;
+  // get_status 的 online/good, 部分实现不提供 online
+  online?: boolean | null;
+  good?: boolean;
+  appName?: string;
+  appVersion?: string;
+  protocolVersion?: string;
+  expectedSelfId?: string;
+  selfIdMismatch?: boolean;
+};
+
+/**
+ * 通过 `get_login_info` / `get_status` / `get_version_info` 探测当前登录的 QQ 账号与 OneBot 实现。
+ *
+ * 只有 get_login_info 失败才视为探测失败, 其余两个动作并非所有实现都支持, 失败时留空。
+ */
+export async function probeQQAccount(params: {
+  client: OneBotTransport;
+  expectedSelfId?: string;
+}): Promise<QQProbe> {
+  const startedAt = Date.now();
+  const [login, status, version] = await Promise.allSettled([
+    params.client.getLoginInfo(),
+    params.client.getStatus(),
+    params.client.getVersionInfo(),
+  ]);
+  const at = Date.now();
+  if (login.status === "rejected") {
+    return {
+      ok: false,
+      error: login.reason instanceof Error ? login.reason.message : String(login.reason),
+      at,
+      elapsedMs: at - startedAt,
+      expectedSelfId: params.expectedSelfId,
+    };
+  }
+  const selfId = String(login.value.user_id);
+  return {
+    ok: true,
+    at,
+    elapsedMs: at - startedAt,
+    selfId,
+    nickname: login.value.nickname,
+    online: status.status === "fulfilled" ? status.value.online : undefined,
+    good: status.status === "fulfilled" ? status.value.good : undefined,
+    appName: version.status === "fulfilled" ? version.value.app_name : undefined,
+    appVersion: version.status === "fulfilled" ? version.value.app_version : undefined,
+    protocolVersion: version.status === "fulfilled" ? version.value.protocol_version : undefined,
+    expectedSelfId: params.expectedSelfId,
+    selfIdMismatch: Boolean(params.expectedSelfId && params.expectedSelfId !== selfId),
+  };
+}
+
+/**
+ * 连接建立时及之后每隔 `intervalMs` 探测一次账号, 并检查事件中的 `self_id` 是否与预期账号一致。
+ *
+ * 未配置 selfId 时以首次探测到的账号为预期值; 每个不一致的 self_id 只上报一次, 避免刷屏。
+ */
+export function createQQAccountProbe(params: {
+  client: OneBotTransport;
+  expectedSelfId?: string;
+  intervalMs: number;
+  onProbe: (probe: QQProbe) => void;
+  onSelfIdMismatch: (actual: string, expected: string) => void;
+}): {
+  latest: () => QQProbe | null;
+  checkEventSelfId: (selfId?: number | string) => void;
+  stop: () => void;
+} {
+  let expectedSelfId = params.expectedSelfId || undefined;
+  let latest: QQProbe | null = null;
+  let running = false;
+  const reported = new Set<string>();
+
+  const checkEventSelfId = (selfId?: number | string) => {
+    if (selfId == null || !expectedSelfId) {
+      return;
+    }
+    const actual = String(selfId);
+    if (actual === expectedSelfId || reported.has(actual)) {
+      return;
+    }
+    reported.add(actual);
+    params.onSelfIdMismatch(actual, expectedSelfId);
+  };
+
+  const run = async () => {
+    if (running || params.client.getState() !== "open") {
+      return;
+    }
+    running = true;
+    try {
+      latest = await probeQQAccount({ client: params.client, expectedSelfId });
+      expectedSelfId ??= latest.selfId;
+      params.onProbe(latest);
+      checkEventSelfId(latest.selfId);
+    } finally {
+      running = false;
+    }
+  };
+
+  const offOpen = params.client.on("open", () => {
+    void run();
+  });
+  const timer =
+    params.intervalMs > 0
+      ? setInterval(() => {
+          void run();
+        }, params.intervalMs)
+      : null;
+  timer?.unref?.();
+  void run();
+
+  return {
+    latest: () => latest,
+    checkEventSelfId,
+    stop: () => {
+      offOpen();
+      if (timer) {
+        clearInterval(timer);
+      }
+    },
+  };
+}
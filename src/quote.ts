@@ -0,0 +1,84 @@
+import type OneBotTransport from "../libs/onebot/transport";
+import type { OneBotMessageEvent } from "../libs/onebot/types";
+import { parseInboundCQ, toPlainText } from "../libs/cq";
+import { resolveSenderName } from "./history";
+
+const DEFAULT_MESSAGE_CACHE_SIZE = 500;
+
+export type QQQuotedMessage = {
+  id: string;
+  sender: string;
+  senderId?: string;
+  body: string;
+};
+
+/**
+ * 最近消息的 LRU 缓存, 以 message_id 为键。
+ *
+ * 连接上收到的每条消息都会记入, 用户引用回复时优先从这里取被引用的内容, 未命中再调用 `get_msg`。
+ */
+export class QQMessageCache {
+  private readonly entries = new Map<string, QQQuotedMessage>();
+
+  constructor(private readonly limit = DEFAULT_MESSAGE_CACHE_SIZE) {}
+
+  public get(id: string): QQQuotedMessage | undefined {
+    const entry = this.entries.get(id);
+    if (entry) {
+      this.entries.delete(id);
+      this.entries.set(id, entry);
+    }
+    return entry;
+  }
+
+  public set(entry: QQQuotedMessage): void {
+    this.entries.delete(entry.id);
+    this.entries.set(entry.id, entry);
+    while (this.entries.size > this.limit) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  public remember(event: OneBotMessageEvent, body: string): void {
+    if (event.message_id == null) {
+      return;
+    }
+    this.set({
+      id: String(event.message_id),
+      sender: resolveSenderName(event),
+      senderId: event.user_id != null ? String(event.user_id) : undefined,
+      body,
+    });
+  }
+}
+
+/**
+ * 解析被引用的消息: 先查缓存, 未命中时通过 `get_msg` 拉取并写回缓存。
+ *
+ * 消息已过期或被撤回时 OneBot 会返回错误, 此时只记录日志并返回 null。
+ */
+export async function resolveQuotedMessage(params: {
+  client: OneBotTransport;
+  cache: QQMessageCache;
+  messageId: string;
+  logPrefix?: string;
+}): Promise<QQQuotedMessage | null> {
+  const cached = params.cache.get(params.messageId);
+  if (cached) {
+    return cached;
+  }
+  try {
+    const data = await params.client.getMsg(params.messageId);
+    const quoted: QQQuotedMessage = {
+      id: params.messageId,
+      sender: resolveSenderName(data),
+      senderId: data.sender?.user_id != null ? String(data.sender.user_id) : undefined,
+      body: toPlainText(parseInboundCQ((data.message as string | unknown[] | undefined) ?? data.raw_message ?? "")),
+    };
+    params.cache.set(quoted);
+    return quoted;
+  } catch (error) {
+    console.warn(`${params.logPrefix ?? "[qq]"} get_msg failed id=${params.messageId}`, error);
+    return null;
+  }
+}
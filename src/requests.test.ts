@@ -0,0 +1,28 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { parseOperatorReply } from "./requests";
+
+const SELF_ID = 10000;
+
+test("解析中英文审批指令", () => {
+  assert.deepEqual(parseOperatorReply("同意 3", SELF_ID), { approve: true, id: "3", reason: undefined });
+  assert.deepEqual(parseOperatorReply("Approve #3", SELF_ID), { approve: true, id: "3", reason: undefined });
+  assert.deepEqual(parseOperatorReply("拒绝 4 广告号", SELF_ID), { approve: false, id: "4", reason: "广告号" });
+  assert.deepEqual(parseOperatorReply("reject 4  spam\nbot ", SELF_ID), {
+    approve: false,
+    id: "4",
+    reason: "spam\nbot",
+  });
+});
+
+test("去掉开头 @机器人 后再解析", () => {
+  assert.deepEqual(parseOperatorReply("@10000 同意 5", SELF_ID), { approve: true, id: "5", reason: undefined });
+  assert.deepEqual(parseOperatorReply("@10000同意 5", SELF_ID), { approve: true, id: "5", reason: undefined });
+  assert.equal(parseOperatorReply("@10001 同意 5", SELF_ID), null);
+});
+
+test("不是审批指令时返回 null", () => {
+  assert.equal(parseOperatorReply("同意", SELF_ID), null);
+  assert.equal(parseOperatorReply("我同意 5", SELF_ID), null);
+  assert.equal(parseOperatorReply("hello", SELF_ID), null);
+});
@@ -0,0 +1,328 @@
+import type OneBotTransport from "../libs/onebot/transport";
+import type {
+  OneBotEvent,
+  OneBotMessageEvent,
+  OneBotQuickOperation,
+  OneBotRequestEvent,
+} from "../libs/onebot/types";
+import type { QQConfig, QQRequestPolicy } from "./config";
+import { splitIdList } from "./config";
+import { dispatchQQMessage, parseQQTarget, type QQTarget } from "./send";
+
+type RequestKind = "friend" | "group_invite" | "group_join";
+
+type RequestDecision = "approve" | "reject" | "forward" | "ignore";
+
+// 与 OpenClaw 的 ctx.log 兼容的日志接口
+type QQRequestLogger = {
+  info?: (message: string) => void;
+  warn?: (message: string) => void;
+  error?: (message: string) => void;
+};
+
+type PendingRequest = {
+  id: string;
+  kind: RequestKind;
+  event: OneBotRequestEvent;
+  expiresAt: number;
+};
+
+// 人工审批的有效期, 过期后 OneBot 实现侧的 flag 通常也已失效。
+const PENDING_TTL_MS = 24 * 60 * 60 * 1000;
+
+const KIND_LABELS: Record<RequestKind, string> = {
+  friend: "好友申请",
+  group_invite: "入群邀请",
+  group_join: "加群申请",
+};
+
+function resolveRequestKind(event: OneBotRequestEvent): RequestKind | null {
+  if (event.request_type === "friend") {
+    return "friend";
+  }
+  if (event.request_type === "group") {
+    if (event.sub_type === "invite") {
+      return "group_invite";
+    }
+    if (event.sub_type === "add") {
+      return "group_join";
+    }
+  }
+  return null;
+}
+
+function resolvePolicy(config: QQConfig, kind: RequestKind): QQRequestPolicy {
+  if (kind === "friend") {
+    return config.friendRequestPolicy;
+  }
+  return kind === "group_invite" ? config.groupInvitePolicy : config.groupJoinPolicy;
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function compileCommentPattern(raw: string, warn: (message: string) => void): RegExp | null {
+  const pattern = raw.trim();
+  if (!pattern) {
+    return null;
+  }
+  try {
+    return new RegExp(pattern, "i");
+  } catch (error) {
+    warn(`invalid requestCommentPattern "${pattern}": ${describeError(error)}`);
+    return null;
+  }
+}
+
+function resolveForwardTarget(raw: string, warn: (message: string) => void): QQTarget | null {
+  if (!raw.trim()) {
+    return null;
+  }
+  try {
+    return parseQQTarget(raw);
+  } catch (error) {
+    warn(`invalid requestForwardTo "${raw}": ${describeError(error)}`);
+    return null;
+  }
+}
+
+function describeRequest(kind: RequestKind, event: OneBotRequestEvent): string {
+  const parts = [`user=${event.user_id ?? "?"}`];
+  if (event.group_id != null) {
+    parts.push(`group=${event.group_id}`);
+  }
+  return `${kind} ${parts.join(" ")}`;
+}
+
+// 解析操作者的审批回复: `同意 <id>` / `拒绝 <id> [理由]`, 兼容英文 approve/reject;
+// 群聊中通常以 `@机器人` 开头, 先去掉。
+export function parseOperatorReply(
+  text: string,
+  selfId: number,
+): { approve: boolean; id: string; reason?: string } | null {
+  const body = text.trim().replace(new RegExp(`^@${selfId}\\s*`), "");
+  const match = body.match(/^(approve|reject|同意|拒绝)\s+#?(\w+)(?:\s+([\s\S]+))?$/i);
+  if (!match) {
+    return null;
+  }
+  const verb = match[1].toLowerCase();
+  return {
+    approve: verb === "approve" || verb === "同意",
+    id: match[2],
+    reason: match[3]?.trim() || undefined,
+  };
+}
+
+/**
+ * 好友申请 / 群邀请 / 加群申请处理。
+ *
+ * 按 `friendRequestPolicy` / `groupInvitePolicy` / `groupJoinPolicy` 决定同意、拒绝、
+ * 忽略或转发给 `requestForwardTo` 人工审批; 每次决策都会记录日志。
+ *
+ * 返回的 `handleOperatorMessage` 需要在入站消息分发前调用, 命中审批回复时返回 true,
+ * 该消息不再交给 agent。
+ *
+ * `quickOperation` 为 true 时(HTTP 上报), 自动同意/拒绝通过 `resolveQuickOperation` 作为上报响应返回,
+ * 不再单独调用 set_*_add_request。
+ */
+export function createQQRequestHandler(params: {
+  client: OneBotTransport;
+  config: QQConfig;
+  quickOperation?: boolean;
+  log?: QQRequestLogger;
+  logPrefix?: string;
+}): {
+  handleOperatorMessage: (event: OneBotMessageEvent, plainText: string) => Promise<boolean>;
+  resolveQuickOperation: (event: OneBotEvent) => OneBotQuickOperation | null;
+  detach: () => void;
+} {
+  const { client, config } = params;
+  const logPrefix = params.logPrefix ?? "[qq]";
+  const logInfo = (message: string) => params.log?.info?.(`${logPrefix} ${message}`);
+  const logWarn = (message: string) => params.log?.warn?.(`${logPrefix} ${message}`);
+  const logError = (message: string) => params.log?.error?.(`${logPrefix} ${message}`);
+  const allowUsers = new Set(splitIdList(config.requestAllowUsers));
+  const allowGroups = new Set(splitIdList(config.requestAllowGroups));
+  const commentPattern = compileCommentPattern(config.requestCommentPattern, logWarn);
+  const forwardTarget = resolveForwardTarget(config.requestForwardTo, logWarn);
+  const pending = new Map<string, PendingRequest>();
+  let pendingSeq = 0;
+
+  const isAllowed = (kind: RequestKind, event: OneBotRequestEvent): boolean => {
+    if (event.user_id != null && allowUsers.has(String(event.user_id))) {
+      return true;
+    }
+    return kind !== "friend" && event.group_id != null && allowGroups.has(String(event.group_id));
+  };
+
+  const decide = (kind: RequestKind, event: OneBotRequestEvent): RequestDecision => {
+    const fallback: RequestDecision = forwardTarget ? "forward" : "reject";
+    switch (resolvePolicy(config, kind)) {
+      case "approve":
+        return "approve";
+      case "reject":
+        return "reject";
+      case "allowlist":
+        return isAllowed(kind, event) ? "approve" : fallback;
+      case "comment":
+        return commentPattern && commentPattern.test(event.comment ?? "") ? "approve" : fallback;
+      case "forward":
+        return forwardTarget ? "forward" : "ignore";
+      default:
+        return "ignore";
+    }
+  };
+
+  const respond = async (
+    kind: RequestKind,
+    event: OneBotRequestEvent,
+    approve: boolean,
+    reason?: string,
+  ): Promise<void> => {
+    if (kind === "friend") {
+      await client.setFriendAddRequest(event.flag!, approve);
+      return;
+    }
+    await client.setGroupAddRequest(
+      event.flag!,
+      event.sub_type ?? "add",
+      approve,
+      approve ? undefined : reason || config.requestRejectReason || undefined,
+    );
+  };
+
+  const prunePending = () => {
+    const now = Date.now();
+    for (const [id, entry] of pending) {
+      if (entry.expiresAt <= now) {
+        pending.delete(id);
+      }
+    }
+  };
+
+  const forward = async (kind: RequestKind, event: OneBotRequestEvent): Promise<void> => {
+    if (!forwardTarget) {
+      return;
+    }
+    prunePending();
+    pendingSeq += 1;
+    const id = String(pendingSeq);
+    pending.set(id, { id, kind, event, expiresAt: Date.now() + PENDING_TTL_MS });
+    const lines = [`${KIND_LABELS[kind]} #${id}`, `申请人: ${event.user_id ?? "未知"}`];
+    if (event.group_id != null) {
+      lines.push(`群号: ${event.group_id}`);
+    }
+    if (event.comment) {
+      lines.push(`验证信息: ${event.comment}`);
+    }
+    lines.push(`回复 "同意 ${id}" 或 "拒绝 ${id} [理由]" 进行处理`);
+    await dispatchQQMessage({
+      client,
+      to: `${forwardTarget.kind}:${forwardTarget.id}`,
+      text: lines.join("\n"),
+      config,
+    });
+  };
+
+  const offRequest = client.on("request", async (event) => {
+    const kind = resolveRequestKind(event);
+    if (!kind || !event.flag) {
+      return;
+    }
+    const decision = decide(kind, event);
+    logInfo(`request ${describeRequest(kind, event)} decision=${decision}`);
+    try {
+      if ((decision === "approve" || decision === "reject") && params.quickOperation) {
+        // 由 resolveQuickOperation 在上报响应中处理
+        return;
+      }
+      if (decision === "approve" || decision === "reject") {
+        await respond(kind, event, decision === "approve");
+      } else if (decision === "forward") {
+        await forward(kind, event);
+      }
+    } catch (error) {
+      logError(`request ${describeRequest(kind, event)} ${decision} failed: ${describeError(error)}`);
+    }
+  });
+
+  // 只接受来自转发目标会话的回复; 转发到群时仅群主/管理员可审批。
+  const isOperator = (event: OneBotMessageEvent): boolean => {
+    if (!forwardTarget) {
+      return false;
+    }
+    if (forwardTarget.kind === "private") {
+      return event.message_type === "private" && event.user_id === forwardTarget.id;
+    }
+    const role = (event.sender as { role?: string } | undefined)?.role;
+    return (
+      event.message_type === "group" &&
+      event.group_id === forwardTarget.id &&
+      (role === "owner" || role === "admin")
+    );
+  };
+
+  const handleOperatorMessage = async (event: OneBotMessageEvent, plainText: string): Promise<boolean> => {
+    if (!pending.size || !isOperator(event)) {
+      return false;
+    }
+    const reply = parseOperatorReply(plainText, event.self_id);
+    if (!reply) {
+      return false;
+    }
+    prunePending();
+    const entry = pending.get(reply.id);
+    const to = `${forwardTarget!.kind}:${forwardTarget!.id}`;
+    if (!entry) {
+      await dispatchQQMessage({ client, to, text: `申请 #${reply.id} 不存在或已过期`, config });
+      return true;
+    }
+    pending.delete(entry.id);
+    const decision = reply.approve ? "approve" : "reject";
+    logInfo(`request ${describeRequest(entry.kind, entry.event)} decision=${decision} operator=${event.user_id}`);
+    try {
+      await respond(entry.kind, entry.event, reply.approve, reply.reason);
+      await dispatchQQMessage({ client, to, text: `已${reply.approve ? "同意" : "拒绝"}申请 #${entry.id}`, config });
+    } catch (error) {
+      logError(`request ${describeRequest(entry.kind, entry.event)} ${decision} failed: ${describeError(error)}`);
+      await dispatchQQMessage({
+        client,
+        to,
+        text: `处理申请 #${entry.id} 失败: ${describeError(error)}`,
+        config,
+      });
+    }
+    return true;
+  };
+
+  const resolveQuickOperation = (event: OneBotEvent): OneBotQuickOperation | null => {
+    if (!params.quickOperation || event.post_type !== "request") {
+      return null;
+    }
+    const kind = resolveRequestKind(event);
+    if (!kind || !event.flag) {
+      return null;
+    }
+    const decision = decide(kind, event);
+    if (decision === "approve") {
+      return { approve: true };
+    }
+    if (decision === "reject") {
+      // 拒绝理由只对加群请求有效
+      return kind === "friend"
+        ? { approve: false }
+        : { approve: false, reason: config.requestRejectReason || undefined };
+    }
+    return null;
+  };
+
+  return {
+    handleOperatorMessage,
+    resolveQuickOperation,
+    detach: () => {
+      offRequest();
+      pending.clear();
+    },
+  };
+}
@@ -0,0 +1,52 @@
+import { readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import type { QQConfig } from "./config";
+
+// 与 OpenClaw 账号快照的 tokenSource 字段取值一致
+export type QQTokenSource = "file" | "env" | "config" | "none";
+
+export type QQResolvedToken = {
+  value: string;
+  source: QQTokenSource;
+  error?: string;
+};
+
+/**
+ * 日志与状态中展示密钥时只说明是否已设置, 不输出任何字符。
+ */
+export function redactSecret(value?: string | null): string {
+  return value ? "***" : "";
+}
+
+function expandHome(path: string): string {
+  return path === "~" || path.startsWith("~/") ? `${homedir()}${path.slice(1)}` : path;
+}
+
+/**
+ * 解析账号(或 wsEndpoints 中单个端点)的 accessToken, 优先级: accessTokenFile > accessTokenEnv > accessToken。
+ *
+ * 每次解析账号都会重新读取文件与环境变量, 配置变更重启账号时即可拿到新的令牌。
+ * 引用的文件不可读或环境变量为空时返回 error, 不回退到下一来源, 避免静默使用旧令牌。
+ */
+export function resolveQQAccessToken(
+  config: Partial<Pick<QQConfig, "accessToken" | "accessTokenEnv" | "accessTokenFile">>,
+): QQResolvedToken {
+  if (config.accessTokenFile) {
+    try {
+      const value = readFileSync(expandHome(config.accessTokenFile), "utf8").trim();
+      return value
+        ? { value, source: "file" }
+        : { value: "", source: "file", error: `accessTokenFile is empty: ${config.accessTokenFile}` };
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      return { value: "", source: "file", error: `failed to read accessTokenFile: ${reason}` };
+    }
+  }
+  if (config.accessTokenEnv) {
+    const value = process.env[config.accessTokenEnv]?.trim() ?? "";
+    return value
+      ? { value, source: "env" }
+      : { value: "", source: "env", error: `environment variable ${config.accessTokenEnv} is not set` };
+  }
+  return config.accessToken ? { value: config.accessToken, source: "config" } : { value: "", source: "none" };
+}
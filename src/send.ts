@@ -1,12 +1,31 @@
-import OneBotWsClient from "../libs/onebot/client";
-import { buildOutboundSegments } from "../libs/cq";
+import { isAbsolute } from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import type OneBotTransport from "../libs/onebot/transport";
+import type { OneBotClientError, OneBotForwardNode, OneBotLoginInfo } from "../libs/onebot/types";
+import { isRetryableActionError } from "../libs/onebot/util";
+import { buildOutboundSegments, type CQOutboundMedia, type CQTextMode } from "../libs/cq";
+import type { QQConfig } from "./config";
 import { CHANNEL_ID } from "./constants";
+import { getQQRuntime } from "./runtime";
 
 export type QQTarget = {
   kind: "private" | "group";
   id: number;
 };
 
+/**
+ * 出站媒体来源：本地路径 / file:// / http(s) 地址，或已在内存中的 Buffer。
+ */
+export type QQOutboundMediaSource =
+  | string
+  | { buffer: Buffer; fileName?: string; contentType?: string };
+
+type PreparedMedia = {
+  kind: CQOutboundMedia["type"] | "file";
+  file: string;
+  name: string;
+};
+
 /**
  * 将用户输入的 QQ 目标字符串解析为统一的发送目标结构。
  *
@@ -47,59 +66,259 @@ export function parseQQTarget(raw: string): QQTarget {
  * - CQ segment 数组（可承载 reply/at 等结构化信息）
  */
 export async function sendByTarget(
-  client: OneBotWsClient,
+  client: OneBotTransport,
   target: QQTarget,
   message: string | Array<{ type: string; data: Record<string, unknown> }>,
 ): Promise<{ ok: true; messageId?: string }> {
-  const resp =
+  const data =
     target.kind === "group"
       ? await client.sendGroupMsg(target.id, message)
       : await client.sendPrivateMsg(target.id, message);
-  if (resp.status !== "ok" || resp.retcode !== 0) {
-    throw new Error(
-      resp.wording || `OneBot send failed (retcode=${resp.retcode})`,
-    );
+  return {
+    ok: true,
+    messageId: data?.message_id != null ? String(data.message_id) : undefined,
+  };
+}
+
+function isLocalSource(source: string): boolean {
+  return source.startsWith("file://") || isAbsolute(source);
+}
+
+/**
+ * 将出站媒体来源转换为 OneBot 可识别的文件引用。
+ *
+ * - 统一经 runtime `loadWebMedia` 读取，复用其本地目录白名单与大小限制
+ * - 按 MIME 归类：图片 → image，音频 → record，视频 → video，其余按文件上传
+ * - `mediaTransfer=path` 时本地文件直接传路径，其余情况编码为 base64://
+ */
+async function prepareOutboundMedia(
+  source: QQOutboundMediaSource,
+  config: QQConfig,
+  localRoots?: readonly string[],
+): Promise<PreparedMedia> {
+  const runtime = getQQRuntime();
+  const maxBytes = Math.floor((config.mediaMaxMb > 0 ? config.mediaMaxMb : 20) * 1024 * 1024);
+
+  let buffer: Buffer;
+  let contentType: string | undefined;
+  let name: string;
+  if (typeof source === "string") {
+    const loaded = await runtime.media.loadWebMedia(source, {
+      maxBytes,
+      optimizeImages: false,
+      localRoots,
+    });
+    buffer = loaded.buffer;
+    contentType = loaded.contentType;
+    name = loaded.fileName ?? source.split(/[\\/]/).pop() ?? "file";
+  } else {
+    if (source.buffer.length > maxBytes) {
+      throw new Error(`QQ outbound media exceeds ${maxBytes} bytes`);
+    }
+    buffer = source.buffer;
+    contentType = source.contentType;
+    name = source.fileName ?? "file";
   }
+
+  const mime = await runtime.media.detectMime({ buffer, headerMime: contentType, filePath: name });
+  const mediaKind = runtime.media.mediaKindFromMime(mime);
+  const kind: PreparedMedia["kind"] =
+    mediaKind === "image" ? "image" : mediaKind === "audio" ? "record" : mediaKind === "video" ? "video" : "file";
+
+  if (config.mediaTransfer === "path" && typeof source === "string" && isLocalSource(source)) {
+    const localPath = source.startsWith("file://") ? fileURLToPath(source) : source;
+    return {
+      kind,
+      // upload_*_file 需要裸路径，消息段使用 file:// URL。
+      file: kind === "file" ? localPath : pathToFileURL(localPath).href,
+      name,
+    };
+  }
+  return { kind, file: `base64://${buffer.toString("base64")}`, name };
+}
+
+async function uploadFileByTarget(
+  client: OneBotTransport,
+  target: QQTarget,
+  media: PreparedMedia,
+): Promise<void> {
+  if (target.kind === "group") {
+    await client.uploadGroupFile(target.id, media.file, media.name);
+  } else {
+    await client.uploadPrivateFile(target.id, media.file, media.name);
+  }
+}
+
+/**
+ * 按 `textChunkLimit` 拆分长文本, 优先在段落边界断开且不拆散代码块。
+ * 未超限或未配置上限时原样返回单段。
+ */
+export function splitOutboundText(text: string, config: QQConfig): string[] {
+  const trimmed = text.trim();
+  const limit = Math.floor(config.textChunkLimit);
+  if (!trimmed || limit <= 0 || trimmed.length <= limit) {
+    return [trimmed];
+  }
+  const chunks = getQQRuntime()
+    .channel.text.chunkMarkdownTextWithMode(trimmed, limit, "newline")
+    .map((chunk) => chunk.trim())
+    .filter(Boolean);
+  return chunks.length ? chunks : [trimmed];
+}
+
+// 合并转发节点需要机器人自身的 QQ 号与昵称, 每个连接只查询一次。
+const loginInfoCache = new WeakMap<OneBotTransport, Promise<OneBotLoginInfo>>();
+
+function getLoginInfoCached(client: OneBotTransport): Promise<OneBotLoginInfo> {
+  let pending = loginInfoCache.get(client);
+  if (!pending) {
+    pending = client.getLoginInfo();
+    pending.catch(() => loginInfoCache.delete(client));
+    loginInfoCache.set(client, pending);
+  }
+  return pending;
+}
+
+/**
+ * 将多段文本作为合并转发发送, 每段一个节点, 节点发送者为机器人自身。
+ * 图片附在第一个节点中。
+ */
+async function sendForwardByTarget(
+  client: OneBotTransport,
+  target: QQTarget,
+  chunks: string[],
+  images: CQOutboundMedia[],
+  textMode: CQTextMode,
+): Promise<{ ok: true; messageId?: string }> {
+  const self = await getLoginInfoCached(client);
+  const nodes: OneBotForwardNode[] = chunks.map((chunk, index) => ({
+    type: "node",
+    data: {
+      name: self.nickname,
+      uin: self.user_id,
+      nickname: self.nickname,
+      user_id: self.user_id,
+      content: buildOutboundSegments({ text: chunk, textMode, media: index === 0 ? images : [] }),
+    },
+  }));
+  const data =
+    target.kind === "group"
+      ? await client.sendGroupForwardMsg(target.id, nodes)
+      : await client.sendPrivateForwardMsg(target.id, nodes);
   return {
     ok: true,
-    messageId:
-      String(
-        (resp.data as { message_id?: string | number } | undefined)?.message_id,
-      ) ?? undefined,
+    messageId: data?.message_id != null ? String(data.message_id) : undefined,
   };
 }
 
 /**
- * QQ 出站文本发送的高层入口。
+ * QQ 出站文本/媒体发送的高层入口。
  *
  * 流程：
  * 1) 解析并校验 `to`，得到 private/group 目标
- * 2) 构建出站 CQ segments（含可选 reply 上下文）
- * 3) 做一个轻量优化：
- *    - 如果仅为纯文本，则直接按字符串发送
- *    - 否则按 segment 数组发送，保留更丰富语义
- * 4) 实际发送与错误语义统一交给 `sendByTarget`
+ * 2) 预处理媒体，按 image / record+video / 文件 分组
+ * 3) 按 `textChunkLimit` 拆分长文本；`longReplyMode=forward` 时改为合并转发，
+ *    否则逐段发送，图片与 reply 上下文只挂在第一段。
+ *    合并转发无法携带 reply/@：有 @ 时在转发后补发一条带 reply 与 @ 的消息；只有 reply 时引用会被丢弃。
+ *    合并转发仅在 OneBot 明确返回不可重试的错误时回退为逐段发送，超时可能已送达，直接抛出避免重复
+ * 4) 始终按 segment 数组发送（纯文本也不例外），避免 agent 输出被 OneBot 当作 CQ 码解析
+ * 5) 语音/视频逐条单独发送，其余文件走 upload_group_file / upload_private_file
+ * 6) 实际发送与错误语义统一交给 `sendByTarget`，reply 只挂在第一条消息上
  *
  * 这样可以让 channel/outbound 层保持简洁，把目标解析、CQ 组装、
  * OneBot 分发逻辑集中到一个模块维护。
  */
 export async function dispatchQQMessage(params: {
-  client: OneBotWsClient;
+  client: OneBotTransport;
   to: string;
   text: string;
   replyToId?: string | null;
+  mentions?: string[];
+  config: QQConfig;
+  media?: QQOutboundMediaSource[];
+  mediaLocalRoots?: readonly string[];
 }): Promise<{ ok: true; messageId?: string  }> {
   const target = parseQQTarget(params.to);
-  const segments = buildOutboundSegments({
-    text: params.text,
-    replyToId: params.replyToId,
-  });
-  if (segments.length <= 1 && segments[0]?.type === "text") {
-    return sendByTarget(
+  const prepared: PreparedMedia[] = [];
+  for (const source of params.media ?? []) {
+    prepared.push(await prepareOutboundMedia(source, params.config, params.mediaLocalRoots));
+  }
+
+  // 图片可与文字同条发送；语音、视频在 QQ 中只能单独成条；其余文件走群/私聊文件上传。
+  const inline = prepared.filter((m) => m.kind === "image");
+  const standalone = prepared.filter((m) => m.kind === "record" || m.kind === "video");
+  const files = prepared.filter((m) => m.kind === "file");
+
+  let replyToId = params.replyToId;
+  let firstMessageId: string | undefined;
+  const images = inline.map((m) => ({ type: "image" as const, file: m.file }));
+  const chunks = splitOutboundText(params.text, params.config);
+
+  let forwarded = false;
+  if (
+    params.config.longReplyMode === "forward" &&
+    chunks.length > 1 &&
+    chunks.length >= params.config.forwardMinChunks
+  ) {
+    try {
+      const result = await sendForwardByTarget(
+        params.client,
+        target,
+        chunks,
+        images,
+        params.config.markdownMode,
+      );
+      firstMessageId = result.messageId;
+      forwarded = true;
+    } catch (error) {
+      if (typeof (error as OneBotClientError | undefined)?.code !== "number" || isRetryableActionError(error)) {
+        throw error;
+      }
+      console.warn(`[${CHANNEL_ID}] forward message failed, falling back to split sending`, error);
+    }
+  }
+
+  if (forwarded) {
+    if (params.mentions?.length) {
+      await sendByTarget(params.client, target, buildOutboundSegments({ replyToId, mentions: params.mentions }));
+    }
+    replyToId = null;
+  }
+
+  for (let index = 0; !forwarded && index < chunks.length; index += 1) {
+    const segments = buildOutboundSegments({
+      text: chunks[index],
+      textMode: params.config.markdownMode,
+      replyToId,
+      mentions: index === 0 ? params.mentions : undefined,
+      media: index === 0 ? images : [],
+    });
+    const hasContent = segments.some((seg) => seg.type !== "reply");
+    if (!hasContent) {
+      continue;
+    }
+    // 始终以消息段数组发送: 字符串形式会被 OneBot 按 CQ 码解析, agent 输出的 `[CQ:at,qq=all]` 等会被执行
+    const result = await sendByTarget(params.client, target, segments);
+    firstMessageId ??= result.messageId;
+    replyToId = null;
+  }
+
+  for (const media of standalone) {
+    const result = await sendByTarget(
       params.client,
       target,
-      String(segments[0]?.data?.text ?? ""),
+      buildOutboundSegments({
+        replyToId,
+        media: [{ type: media.kind as CQOutboundMedia["type"], file: media.file }],
+      }),
     );
+    firstMessageId ??= result.messageId;
+    replyToId = null;
   }
-  return sendByTarget(params.client, target, segments);
+
+  for (const media of files) {
+    await uploadFileByTarget(params.client, target, media);
+  }
+
+  return { ok: true, messageId: firstMessageId };
 }